@@ -9,6 +9,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/landmark/:pageid" component={Home} />
       <Route component={NotFound} />
     </Switch>
   );
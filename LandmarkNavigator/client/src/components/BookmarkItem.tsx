@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { MapPin, Pencil, X } from 'lucide-react';
+import { Bookmark, BookmarkCollection } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { BookmarkChanges } from '@/hooks/use-bookmarks';
+import { formatDistance } from '@/lib/distance';
+import { bookmarkKey } from '@shared/bookmarks';
+
+type BookmarkItemProps = {
+  bookmark: Bookmark;
+  collections: BookmarkCollection[];
+  onSelect: () => void;
+  onRemove: () => void;
+  onUpdate: (changes: BookmarkChanges) => void;
+};
+
+const BookmarkItem = ({ bookmark, collections, onSelect, onRemove, onUpdate }: BookmarkItemProps) => {
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState(bookmark.note);
+  const [tagText, setTagText] = useState(bookmark.tags.join(', '));
+
+  const startEditing = () => {
+    setNote(bookmark.note);
+    setTagText(bookmark.tags.join(', '));
+    setEditing(true);
+  };
+
+  const saveEdits = () => {
+    onUpdate({ note: note.trim(), tags: tagText.split(',') });
+    setEditing(false);
+  };
+
+  const toggleCollection = (collectionId: string, included: boolean) => {
+    onUpdate({
+      collectionIds: included
+        ? [...bookmark.collectionIds, collectionId]
+        : bookmark.collectionIds.filter((id) => id !== collectionId)
+    });
+  };
+
+  return (
+    <li className="rounded-md border p-3 transition-colors hover:bg-gray-50">
+      <div className="flex items-start gap-2">
+        <Checkbox
+          className="mt-0.5"
+          checked={bookmark.visited}
+          onCheckedChange={(checked) => onUpdate({ visited: checked === true })}
+          aria-label={bookmark.visited ? 'Mark as not visited' : 'Mark as visited'}
+          title={bookmark.visited ? 'Visited' : 'Not visited yet'}
+        />
+        <button className="flex-1 text-left" onClick={onSelect}>
+          <h3 className={`font-medium text-sm line-clamp-1 ${bookmark.visited ? 'text-gray-500 line-through' : ''}`}>
+            {bookmark.title}
+          </h3>
+        </button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 -mt-1 text-gray-500"
+          onClick={() => (editing ? saveEdits() : startEditing())}
+          aria-label={editing ? 'Done editing' : 'Edit note and tags'}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 -mr-1 -mt-1 text-gray-500 hover:text-red-500"
+          onClick={onRemove}
+          aria-label="Remove bookmark"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!editing && bookmark.note && (
+        <p className="mt-1 ml-6 text-xs text-gray-600 line-clamp-2 whitespace-pre-line">{bookmark.note}</p>
+      )}
+
+      {!editing && bookmark.tags.length > 0 && (
+        <div className="mt-1 ml-6 flex flex-wrap gap-1">
+          {bookmark.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs font-normal">#{tag}</Badge>
+          ))}
+        </div>
+      )}
+
+      {!editing && bookmark.distance !== undefined && (
+        <div className="flex items-center text-xs text-muted-foreground mt-1 ml-6">
+          <MapPin className="h-3 w-3 mr-1" />
+          {formatDistance(bookmark.distance)} away
+        </div>
+      )}
+
+      {editing && (
+        <div className="mt-2 ml-6 space-y-2">
+          <Textarea
+            placeholder="Add a note..."
+            className="text-sm min-h-[60px]"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Input
+            placeholder="Tags, separated by commas"
+            className="text-sm h-8"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveEdits()}
+          />
+          {collections.length > 0 && (
+            <div className="space-y-1">
+              {collections.map((collection) => (
+                <div key={collection.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`collection-${bookmarkKey(bookmark)}-${collection.id}`}
+                    checked={bookmark.collectionIds.includes(collection.id)}
+                    onCheckedChange={(checked) => toggleCollection(collection.id, checked === true)}
+                  />
+                  <Label htmlFor={`collection-${bookmarkKey(bookmark)}-${collection.id}`} className="text-sm font-normal">
+                    {collection.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>Cancel</Button>
+            <Button size="sm" onClick={saveEdits}>Save</Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default BookmarkItem;
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Cloud, CloudOff, Copy, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { BookmarkSyncStatus } from '@/hooks/use-bookmarks';
+import { copyToClipboard } from '@/lib/share';
+
+type BookmarkSyncSettingsProps = {
+  sync: BookmarkSyncStatus;
+};
+
+const BookmarkSyncSettings = ({ sync }: BookmarkSyncSettingsProps) => {
+  const [linkCode, setLinkCode] = useState('');
+  const { toast } = useToast();
+
+  const handleCopyCode = async () => {
+    if (!sync.code) {
+      return;
+    }
+    try {
+      await copyToClipboard(sync.code);
+      toast({ title: 'Sync code copied', description: 'Enter it on your other device to link it.' });
+    } catch (error) {
+      console.error('Error copying sync code:', error);
+    }
+  };
+
+  const handleLink = () => {
+    if (linkCode.trim()) {
+      sync.link(linkCode);
+      setLinkCode('');
+    }
+  };
+
+  const status = sync.syncing
+    ? 'Syncing...'
+    : sync.pendingCount > 0
+      ? `${sync.pendingCount} ${sync.pendingCount === 1 ? 'change' : 'changes'} waiting to sync`
+      : sync.lastSyncedAt
+        ? `Last synced at ${new Date(sync.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+        : 'Not synced yet';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center" aria-label="Sync settings">
+          {sync.code ? <Cloud className="h-4 w-4 mr-1" /> : <CloudOff className="h-4 w-4 mr-1" />}
+          {sync.code ? 'Synced' : 'Sync'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3 text-sm">
+        <h3 className="font-medium">Sync between devices</h3>
+
+        {sync.code ? (
+          <>
+            <p className="text-gray-600">Enter this code on your other devices to share these saved places. Keep it private: anyone with the code can see and change them.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 rounded bg-gray-100 px-2 py-1 font-mono text-xs">{sync.code}</code>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopyCode} aria-label="Copy sync code">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>{status}</span>
+              <Button variant="ghost" size="sm" className="h-7" onClick={sync.syncNow} disabled={sync.syncing}>
+                <RefreshCw className={`h-3 w-3 mr-1 ${sync.syncing ? 'animate-spin' : ''}`} />
+                Sync now
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" className="w-full" onClick={sync.disable}>
+              Stop syncing on this device
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600">Keep your saved places in step on your phone and computer. No account or email needed.</p>
+            <Button size="sm" className="w-full" onClick={sync.enable} disabled={sync.syncing}>
+              Turn on sync
+            </Button>
+            <div className="space-y-1">
+              <label htmlFor="sync-code" className="text-xs text-gray-500">Already syncing on another device? Enter its code:</label>
+              <div className="flex gap-2">
+                <Input
+                  id="sync-code"
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX"
+                  className="h-8 font-mono text-xs"
+                  value={linkCode}
+                  onChange={(e) => setLinkCode(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLink()}
+                />
+                <Button variant="outline" size="sm" className="h-8" onClick={handleLink} disabled={!linkCode.trim()}>
+                  Link
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {sync.error && <p className="text-xs text-red-600">{sync.error}</p>}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default BookmarkSyncSettings;
@@ -1,68 +1,252 @@
 import { useState } from 'react';
-import { Landmark } from '@/types';
+import { Bookmark as BookmarkType, BookmarkCollection } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Bookmark, Search, X, MapPin } from 'lucide-react';
-import { formatDistance } from '@/lib/distance';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Bookmark, Search, X, Route, FolderPlus, Pencil, Trash2, Check, Download } from 'lucide-react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { BookmarkChanges, BookmarkSyncStatus } from '@/hooks/use-bookmarks';
+import BookmarkItem from './BookmarkItem';
+import BookmarkSyncSettings from './BookmarkSyncSettings';
+import { EXPORT_FORMATS, ExportFormat, downloadBookmarks } from '@/lib/export';
+import { bookmarkKey } from '@shared/bookmarks';
+
+const ALL_COLLECTIONS = 'all';
+const NO_COLLECTION = 'none';
+
+type VisitedFilter = 'all' | 'unvisited' | 'visited';
 
 type BookmarksPanelProps = {
-  bookmarks: Landmark[];
-  onSelectLandmark: (landmark: Landmark) => void;
-  onRemoveBookmark: (landmarkId: number) => void;
+  bookmarks: BookmarkType[];
+  collections: BookmarkCollection[];
+  tags: string[];
+  sync: BookmarkSyncStatus;
+  onSelectLandmark: (landmark: BookmarkType) => void;
+  onRemoveBookmark: (bookmark: BookmarkType) => void;
+  onUpdateBookmark: (bookmark: BookmarkType, changes: BookmarkChanges) => void;
+  onCreateCollection: (name: string) => BookmarkCollection;
+  onRenameCollection: (collectionId: string, name: string) => void;
+  onDeleteCollection: (collectionId: string) => void;
+  onPlanTour: () => void;
 };
 
-const BookmarksPanel = ({ bookmarks, onSelectLandmark, onRemoveBookmark }: BookmarksPanelProps) => {
+const BookmarksPanel = ({
+  bookmarks,
+  collections,
+  tags,
+  sync,
+  onSelectLandmark,
+  onRemoveBookmark,
+  onUpdateBookmark,
+  onCreateCollection,
+  onRenameCollection,
+  onDeleteCollection,
+  onPlanTour
+}: BookmarksPanelProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [collectionFilter, setCollectionFilter] = useState<string>(ALL_COLLECTIONS);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [visitedFilter, setVisitedFilter] = useState<VisitedFilter>('all');
+  // Name being typed for a new collection, or for renaming the selected one
+  const [collectionName, setCollectionName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
 
-  const filteredBookmarks = bookmarks.filter(
-    bookmark => bookmark.title.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const selectedCollection = collections.find(collection => collection.id === collectionFilter);
 
-  const handleRemoveBookmark = (e: React.MouseEvent, landmarkId: number) => {
-    e.stopPropagation();
-    onRemoveBookmark(landmarkId);
+  const filteredBookmarks = bookmarks.filter(bookmark => {
+    const query = searchQuery.toLowerCase();
+    const matchesQuery = bookmark.title.toLowerCase().includes(query) || bookmark.note.toLowerCase().includes(query);
+    const matchesCollection = collectionFilter === ALL_COLLECTIONS
+      || (collectionFilter === NO_COLLECTION
+        ? bookmark.collectionIds.length === 0
+        : bookmark.collectionIds.includes(collectionFilter));
+    const matchesTags = tagFilter.every(tag => bookmark.tags.includes(tag));
+    const matchesVisited = visitedFilter === 'all' || bookmark.visited === (visitedFilter === 'visited');
+    return matchesQuery && matchesCollection && matchesTags && matchesVisited;
+  });
+
+  const toggleTag = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const startCollectionName = (rename: boolean) => {
+    setRenaming(rename);
+    setCollectionName(rename && selectedCollection ? selectedCollection.name : "");
+  };
+
+  const saveCollectionName = () => {
+    const name = collectionName?.trim();
+    if (name) {
+      if (renaming && selectedCollection) {
+        onRenameCollection(selectedCollection.id, name);
+      } else {
+        setCollectionFilter(onCreateCollection(name).id);
+      }
+    }
+    setCollectionName(null);
+  };
+
+  // Exports the places currently listed, named after the selected collection
+  const handleExport = (format: ExportFormat) => {
+    downloadBookmarks(filteredBookmarks, format, selectedCollection?.name ?? 'Saved places');
+  };
+
+  const handleDeleteCollection = () => {
+    if (selectedCollection && window.confirm(`Delete the collection "${selectedCollection.name}"? Its places stay saved.`)) {
+      onDeleteCollection(selectedCollection.id);
+      setCollectionFilter(ALL_COLLECTIONS);
+    }
   };
 
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
       <SheetTrigger asChild>
-        <Button 
-          variant="outline" 
-          size="icon" 
+        <Button
+          variant="outline"
+          size="icon"
           className="fixed bottom-4 right-4 z-10 rounded-full w-12 h-12 shadow-lg bg-white"
         >
           <Bookmark className="h-5 w-5" />
         </Button>
       </SheetTrigger>
       <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col">
-        <SheetHeader className="p-4 border-b">
+        <SheetHeader className="p-4 border-b space-y-2">
           <SheetTitle className="text-left flex items-center gap-2">
             <Bookmark className="h-5 w-5" />
             Saved Places ({filteredBookmarks.length})
           </SheetTitle>
-          <div className="relative mt-2">
-            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search your bookmarks..."
-              className="pl-8"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-            {searchQuery && (
-              <Button
-                variant="ghost"
-                size="icon"
-                className="absolute right-1 top-1 h-7 w-7"
-                onClick={() => setSearchQuery("")}
-              >
-                <X className="h-4 w-4" />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center"
+              disabled={bookmarks.length === 0}
+              onClick={() => {
+                onPlanTour();
+                setIsOpen(false);
+              }}
+            >
+              <Route className="h-4 w-4 mr-1" />
+              Plan a tour
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center" disabled={filteredBookmarks.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {EXPORT_FORMATS.map(format => (
+                  <DropdownMenuItem key={format.id} onClick={() => handleExport(format.id)}>
+                    {format.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <BookmarkSyncSettings sync={sync} />
+          </div>
+
+          {/* Collections */}
+          {collectionName !== null ? (
+            <div className="flex gap-2">
+              <Input
+                autoFocus
+                placeholder="Collection name, e.g. Rome trip"
+                className="h-9"
+                value={collectionName}
+                onChange={(e) => setCollectionName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveCollectionName();
+                  if (e.key === 'Escape') setCollectionName(null);
+                }}
+              />
+              <Button size="icon" className="h-9 w-9 flex-shrink-0" onClick={saveCollectionName} aria-label="Save collection">
+                <Check className="h-4 w-4" />
               </Button>
-            )}
+            </div>
+          ) : (
+            <div className="flex gap-1">
+              <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="All collections" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COLLECTIONS}>All saved places</SelectItem>
+                  {collections.map(collection => (
+                    <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                  ))}
+                  <SelectItem value={NO_COLLECTION}>Not in a collection</SelectItem>
+                </SelectContent>
+              </Select>
+              {selectedCollection && (
+                <>
+                  <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" onClick={() => startCollectionName(true)} aria-label="Rename collection">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0 hover:text-red-500" onClick={handleDeleteCollection} aria-label="Delete collection">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" onClick={() => startCollectionName(false)} aria-label="New collection">
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search your bookmarks..."
+                className="pl-8"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+              {searchQuery && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-1 top-1 h-7 w-7"
+                  onClick={() => setSearchQuery("")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <Select value={visitedFilter} onValueChange={(value) => setVisitedFilter(value as VisitedFilter)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="unvisited">To visit</SelectItem>
+                <SelectItem value="visited">Visited</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+
+          {/* Tags */}
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={tagFilter.includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer font-normal"
+                  onClick={() => toggleTag(tag)}
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
         </SheetHeader>
-        
+
         <div className="flex-1 overflow-y-auto p-2">
           {filteredBookmarks.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center p-4 text-muted-foreground">
@@ -79,7 +263,7 @@ const BookmarksPanel = ({ bookmarks, onSelectLandmark, onRemoveBookmark }: Bookm
                   <Search className="h-12 w-12 mb-2 opacity-20" />
                   <h3 className="font-medium mb-1">No matching bookmarks</h3>
                   <p className="text-sm">
-                    Try a different search term.
+                    Try a different search term, collection or tag.
                   </p>
                 </>
               )}
@@ -87,32 +271,17 @@ const BookmarksPanel = ({ bookmarks, onSelectLandmark, onRemoveBookmark }: Bookm
           ) : (
             <ul className="space-y-2">
               {filteredBookmarks.map((bookmark) => (
-                <li 
-                  key={bookmark.pageid}
-                  className="rounded-md border p-3 hover:bg-gray-50 cursor-pointer transition-colors"
-                  onClick={() => {
+                <BookmarkItem
+                  key={bookmarkKey(bookmark)}
+                  bookmark={bookmark}
+                  collections={collections}
+                  onSelect={() => {
                     onSelectLandmark(bookmark);
                     setIsOpen(false);
                   }}
-                >
-                  <div className="flex justify-between items-start">
-                    <h3 className="font-medium text-sm line-clamp-1">{bookmark.title}</h3>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="h-6 w-6 -mr-1 -mt-1 text-gray-500 hover:text-red-500"
-                      onClick={(e) => handleRemoveBookmark(e, bookmark.pageid)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  {bookmark.distance !== undefined && (
-                    <div className="flex items-center text-xs text-muted-foreground mt-1">
-                      <MapPin className="h-3 w-3 mr-1" />
-                      {formatDistance(bookmark.distance)} away
-                    </div>
-                  )}
-                </li>
+                  onRemove={() => onRemoveBookmark(bookmark)}
+                  onUpdate={(changes) => onUpdateBookmark(bookmark, changes)}
+                />
               ))}
             </ul>
           )}
@@ -122,4 +291,4 @@ const BookmarksPanel = ({ bookmarks, onSelectLandmark, onRemoveBookmark }: Bookm
   );
 };
 
-export default BookmarksPanel;
\ No newline at end of file
+export default BookmarksPanel;
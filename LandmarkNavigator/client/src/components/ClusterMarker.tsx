@@ -0,0 +1,85 @@
+import { Marker, Popup, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Landmark, LandmarkCluster } from '@/types';
+
+// Create a bubble icon sized by the number of landmarks in the cluster, blue when it holds the selected landmark
+const createClusterIcon = (count: number, isSelected: boolean) => {
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+  const color = isSelected ? 'bg-blue-500' : 'bg-orange-500';
+
+  return L.divIcon({
+    className: 'custom-marker',
+    html: `
+      <div class="rounded-full ${color} bg-opacity-30 flex items-center justify-center" style="width: ${size}px; height: ${size}px;">
+        <div class="rounded-full ${color} text-white text-sm font-semibold flex items-center justify-center shadow-lg" style="width: ${size - 8}px; height: ${size - 8}px;">
+          ${count}
+        </div>
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+type ClusterMarkerProps = {
+  cluster: LandmarkCluster;
+  isSelected: boolean; // Whether the selected landmark is in the cluster
+  onSelectLandmark: (landmark: Landmark) => void;
+};
+
+const ClusterMarker = ({ cluster, isSelected, onSelectLandmark }: ClusterMarkerProps) => {
+  const map = useMap();
+  const position: [number, number] = [cluster.lat, cluster.lon];
+  const { north, south, east, west } = cluster.bounds;
+
+  // Zooming in can't split landmarks that share one spot, or anything at the maximum zoom,
+  // so those clusters list their landmarks instead
+  const members = cluster.members ?? cluster.landmarks;
+  const listMembers = (north === south && east === west) || map.getZoom() >= map.getMaxZoom();
+
+  const handleClick = () => {
+    if (!listMembers) {
+      map.fitBounds([[south, west], [north, east]], { padding: [40, 40] });
+    }
+  };
+
+  const handleSelect = (landmark: Landmark) => {
+    map.closePopup();
+    onSelectLandmark(landmark);
+  };
+
+  return (
+    <Marker
+      position={position}
+      icon={createClusterIcon(cluster.count, isSelected)}
+      eventHandlers={{
+        click: handleClick,
+      }}
+    >
+      <Tooltip>
+        <div>
+          <div className="font-semibold">{cluster.count} landmarks</div>
+          {cluster.landmarks.map((landmark) => (
+            <div key={landmark.pageid} className="text-xs text-gray-600">{landmark.title}</div>
+          ))}
+        </div>
+      </Tooltip>
+      {listMembers && (
+        <Popup>
+          <div className="font-semibold mb-1">{cluster.count} landmarks here</div>
+          <ul className="max-h-48 overflow-y-auto custom-scrollbar">
+            {members.map((landmark) => (
+              <li key={landmark.pageid}>
+                <button className="text-left text-sm text-blue-600 hover:underline" onClick={() => handleSelect(landmark)}>
+                  {landmark.title}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </Popup>
+      )}
+    </Marker>
+  );
+};
+
+export default ClusterMarker;
@@ -1,16 +1,63 @@
-import { X, Calendar, Ruler, User, ExternalLink, Navigation, Bookmark, BookmarkCheck, Share } from 'lucide-react';
+import { X, Calendar, Ruler, User, ExternalLink, Navigation, Bookmark, BookmarkCheck, Share, QrCode, Languages, Landmark as LandmarkIcon, Globe } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { Landmark } from '@/types';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { buildLandmarkLink } from '@/lib/map-link';
+import { shareLink } from '@/lib/share';
+import { Landmark, LandmarkSourceName, WikiLangLink } from '@/types';
+import { CategoryIcon } from './icons/CategoryIcon';
+import { DEFAULT_LANGUAGE, wikipediaBaseUrl } from '@shared/languages';
+import { getCategory } from '@shared/categories';
+
+const MAX_LANG_LINKS = 20; // Language links shown before collapsing into a count
+const QR_CODE_SIZE = 192;
+
+const SOURCE_LINK_LABELS: Record<LandmarkSourceName, string> = {
+  wikipedia: 'View on Wikipedia',
+  osm: 'View on OpenStreetMap',
+  wikivoyage: 'View on Wikivoyage',
+};
 
 type DetailViewProps = {
   landmark: Landmark;
   onClose: () => void;
   onToggleBookmark?: (landmark: Landmark) => void;
+  onDirections?: (landmark: Landmark) => void;
   isBookmarked?: boolean;
 };
 
-const DetailView = ({ landmark, onClose, onToggleBookmark, isBookmarked = false }: DetailViewProps) => {
+const DetailView = ({ landmark, onClose, onToggleBookmark, onDirections, isBookmarked = false }: DetailViewProps) => {
+  const lang = landmark.lang || DEFAULT_LANGUAGE;
+  const isWikipediaPage = !landmark.source || landmark.source === 'wikipedia';
+  const { data: langLinks } = useQuery<WikiLangLink[]>({
+    queryKey: [`/api/landmarks/${landmark.pageid}/langlinks?lang=${lang}`],
+    enabled: isWikipediaPage, // Other sources have no Wikipedia page to link from
+  });
+  const { toast } = useToast();
+  const shareUrl = new URL(buildLandmarkLink(landmark.pageid, lang), window.location.origin).toString();
+
+  const handleShareClick = async () => {
+    try {
+      const outcome = await shareLink({ title: landmark.title, text: landmark.description, url: shareUrl });
+      if (outcome === 'copied') {
+        toast({
+          title: 'Link copied',
+          description: `A link to ${landmark.title} has been copied to your clipboard.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error sharing landmark:', error);
+      toast({
+        title: 'Could not share link',
+        description: shareUrl,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleBookmarkClick = () => {
     if (onToggleBookmark) {
       onToggleBookmark(landmark);
@@ -36,6 +83,10 @@ const DetailView = ({ landmark, onClose, onToggleBookmark, isBookmarked = false
           </Button>
           <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black to-transparent text-white">
             <h2 className="text-xl font-bold">{landmark.title}</h2>
+            <div className="flex items-center text-sm opacity-90">
+              <CategoryIcon category={landmark.category} className="h-4 w-4 mr-1" />
+              {getCategory(landmark.category).name}
+            </div>
           </div>
         </div>
         
@@ -62,7 +113,18 @@ const DetailView = ({ landmark, onClose, onToggleBookmark, isBookmarked = false
                     {fact.type === 'date' && <Calendar className="text-blue-500 mr-2 h-4 w-4" />}
                     {fact.type === 'measurement' && <Ruler className="text-blue-500 mr-2 h-4 w-4" />}
                     {fact.type === 'person' && <User className="text-blue-500 mr-2 h-4 w-4" />}
-                    <span><span className="font-medium">{fact.label}: </span>{fact.value}</span>
+                    {fact.type === 'heritage' && <LandmarkIcon className="text-blue-500 mr-2 h-4 w-4" />}
+                    {fact.type === 'website' && <Globe className="text-blue-500 mr-2 h-4 w-4" />}
+                    {fact.type === 'website' ? (
+                      <span>
+                        <span className="font-medium">{fact.label}: </span>
+                        <a href={fact.value} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                          {fact.value}
+                        </a>
+                      </span>
+                    ) : (
+                      <span><span className="font-medium">{fact.label}: </span>{fact.value}</span>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -72,20 +134,46 @@ const DetailView = ({ landmark, onClose, onToggleBookmark, isBookmarked = false
           <div>
             <h3 className="font-medium text-gray-900 mb-2">Learn More</h3>
             <a 
-              href={`https://en.wikipedia.org/wiki/${encodeURIComponent(landmark.title)}`} 
+              href={isWikipediaPage ? `${wikipediaBaseUrl(lang)}/wiki/${encodeURIComponent(landmark.title)}` : landmark.url} 
               target="_blank" 
               rel="noopener noreferrer"
               className="text-blue-600 hover:underline text-sm flex items-center"
             >
               <ExternalLink className="h-4 w-4 mr-1" />
-              View on Wikipedia
+              {SOURCE_LINK_LABELS[landmark.source ?? 'wikipedia']}
             </a>
           </div>
+
+          {langLinks && langLinks.length > 0 && (
+            <div className="mt-4">
+              <h3 className="font-medium text-gray-900 mb-2 flex items-center">
+                <Languages className="h-4 w-4 mr-1" />
+                Other Languages
+              </h3>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {langLinks.slice(0, MAX_LANG_LINKS).map((link) => (
+                  <a
+                    key={link.lang}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={link.title}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {link.autonym || link.lang}
+                  </a>
+                ))}
+                {langLinks.length > MAX_LANG_LINKS && (
+                  <span className="text-gray-500">+{langLinks.length - MAX_LANG_LINKS} more</span>
+                )}
+              </div>
+            </div>
+          )}
         </div>
         
         {/* Detail Actions */}
         <div className="p-3 border-t border-gray-200 flex justify-between">
-          <Button variant="outline" size="sm" className="flex items-center">
+          <Button variant="outline" size="sm" className="flex items-center" onClick={() => onDirections?.(landmark)}>
             <Navigation className="h-4 w-4 mr-1" />
             Directions
           </Button>
@@ -101,10 +189,23 @@ const DetailView = ({ landmark, onClose, onToggleBookmark, isBookmarked = false
             }
             {isBookmarked ? "Saved" : "Save"}
           </Button>
-          <Button variant="outline" size="sm" className="flex items-center">
-            <Share className="h-4 w-4 mr-1" />
-            Share
-          </Button>
+          <div className="flex">
+            <Button variant="outline" size="sm" className="flex items-center rounded-r-none" onClick={handleShareClick}>
+              <Share className="h-4 w-4 mr-1" />
+              Share
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="rounded-l-none border-l-0 px-2" aria-label="Show QR code">
+                  <QrCode className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-auto flex flex-col items-center">
+                <QRCodeSVG value={shareUrl} size={QR_CODE_SIZE} marginSize={2} />
+                <p className="mt-2 text-xs text-gray-500">Scan to open {landmark.title}</p>
+              </PopoverContent>
+            </Popover>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,126 @@
+import { UseQueryResult } from '@tanstack/react-query';
+import { Bike, Car, Footprints, Loader2, Navigation } from 'lucide-react';
+import { Landmark, RouteResult, RouteStep, TravelMode } from '@/types';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { TRAVEL_MODES } from '@/hooks/use-routes';
+import { formatDistance, formatDuration } from '@/lib/distance';
+
+const TRAVEL_MODE_LABELS: Record<TravelMode, { label: string; icon: typeof Footprints }> = {
+  walk: { label: 'Walk', icon: Footprints },
+  bike: { label: 'Bike', icon: Bike },
+  drive: { label: 'Drive', icon: Car },
+};
+
+type DirectionsSheetProps = {
+  landmark: Landmark;
+  routes: Record<TravelMode, UseQueryResult<RouteResult>>;
+  mode: TravelMode;
+  onModeChange: (mode: TravelMode) => void;
+  locating: boolean;
+  locationError: string | null;
+  onSelectStep: (step: RouteStep) => void;
+  onClose: () => void;
+};
+
+const DirectionsSheet = ({
+  landmark,
+  routes,
+  mode,
+  onModeChange,
+  locating,
+  locationError,
+  onSelectStep,
+  onClose
+}: DirectionsSheetProps) => {
+  const { data: route, isLoading, error } = routes[mode];
+
+  const renderBody = () => {
+    if (locating) {
+      return <p className="text-sm text-muted-foreground">Finding your location...</p>;
+    }
+    if (locationError) {
+      return <p className="text-sm text-red-600">Directions need your location: {locationError}</p>;
+    }
+    if (isLoading) {
+      return (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Finding a route...
+        </div>
+      );
+    }
+    if (error || !route) {
+      return (
+        <p className="text-sm text-red-600">
+          {String(error).startsWith('Error: 404') ? 'No route found for this travel mode.' : 'Could not load directions.'}
+        </p>
+      );
+    }
+
+    return (
+      <ol className="space-y-1">
+        {route.steps.map((step, index) => (
+          <li
+            key={index}
+            className="flex items-start gap-3 rounded-md p-2 text-sm hover:bg-gray-50 cursor-pointer"
+            onClick={() => onSelectStep(step)}
+          >
+            <span className="flex-shrink-0 w-5 h-5 rounded-full bg-blue-500 text-white text-xs flex items-center justify-center">
+              {index + 1}
+            </span>
+            <div className="flex-1">
+              <div>{step.instruction}</div>
+              {step.distance > 0 && (
+                <div className="text-xs text-muted-foreground">{formatDistance(step.distance / 1000)}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <Sheet open={true} modal={false} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side="left"
+        className="w-full sm:max-w-sm p-0 flex flex-col"
+        onInteractOutside={(e) => e.preventDefault()} // Keep the sheet open while the map is used
+      >
+        <SheetHeader className="p-4 border-b">
+          <SheetTitle className="text-left flex items-center gap-2">
+            <Navigation className="h-5 w-5" />
+            Directions
+          </SheetTitle>
+          <SheetDescription className="text-left">To {landmark.title}</SheetDescription>
+          <Tabs value={mode} onValueChange={(value) => onModeChange(value as TravelMode)} className="mt-2">
+            <TabsList className="grid w-full grid-cols-3 h-auto">
+              {TRAVEL_MODES.map((travelMode) => {
+                const { label, icon: Icon } = TRAVEL_MODE_LABELS[travelMode];
+                const summary = routes[travelMode].data;
+                return (
+                  <TabsTrigger key={travelMode} value={travelMode} className="flex flex-col py-1">
+                    <span className="flex items-center gap-1">
+                      <Icon className="h-4 w-4" />
+                      {label}
+                    </span>
+                    <span className="text-xs font-normal">
+                      {summary ? `${formatDuration(summary.duration)} · ${formatDistance(summary.distance / 1000)}` : '–'}
+                    </span>
+                  </TabsTrigger>
+                );
+              })}
+            </TabsList>
+          </Tabs>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {renderBody()}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DirectionsSheet;
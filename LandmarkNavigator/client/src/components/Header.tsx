@@ -1,8 +1,14 @@
 import { HelpCircle, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Explore } from "./icons/Explore";
+import LanguageSelector from "./LanguageSelector";
 
-const Header = () => {
+type HeaderProps = {
+  language: string;
+  onLanguageChange: (code: string) => void;
+};
+
+const Header = ({ language, onLanguageChange }: HeaderProps) => {
   return (
     <header className="bg-white shadow-md py-3 px-4 flex justify-between items-center">
       <div className="flex items-center">
@@ -10,6 +16,10 @@ const Header = () => {
         <h1 className="font-semibold text-xl">Landmark Explorer</h1>
       </div>
       <div className="flex items-center space-x-2">
+        <LanguageSelector
+          selectedLanguage={language}
+          onSelectLanguage={onLanguageChange}
+        />
         <Button variant="ghost" size="icon" className="rounded-full">
           <HelpCircle className="h-5 w-5 text-gray-600" />
         </Button>
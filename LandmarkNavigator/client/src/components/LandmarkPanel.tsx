@@ -3,6 +3,9 @@ import { Landmark } from '@/types';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FilterIcon } from "lucide-react";
+import { CategoryIcon } from './icons/CategoryIcon';
+import { excerptAroundMatch, highlightMatches } from '@/lib/search';
+import { LANDMARK_CATEGORIES, LandmarkCategory, getCategory } from '@shared/categories';
 
 type LandmarkPanelProps = {
   landmarks: Landmark[];
@@ -13,8 +16,24 @@ type LandmarkPanelProps = {
   onSortChange: (option: string) => void;
   filterValue: string;
   sortValue: string;
+  categoryCounts: Partial<Record<LandmarkCategory, number>>;
+  categoryFilter: LandmarkCategory[];
+  onCategoryFilterChange: (categories: LandmarkCategory[]) => void;
 };
 
+// Render text with the words matching the query marked
+const HighlightedText = ({ text, query }: { text: string; query: string }) => (
+  <>
+    {highlightMatches(text, query).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
 const LandmarkPanel = ({
   landmarks,
   selectedLandmark,
@@ -23,7 +42,10 @@ const LandmarkPanel = ({
   onFilterChange,
   onSortChange,
   filterValue,
-  sortValue
+  sortValue,
+  categoryCounts,
+  categoryFilter,
+  onCategoryFilterChange
 }: LandmarkPanelProps) => {
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const [isPanelHidden, setIsPanelHidden] = useState(isMobile);
@@ -48,6 +70,19 @@ const LandmarkPanel = ({
     setIsPanelHidden(!isPanelHidden);
   };
 
+  const toggleCategory = (category: LandmarkCategory) => {
+    onCategoryFilterChange(
+      categoryFilter.includes(category)
+        ? categoryFilter.filter((selected) => selected !== category)
+        : [...categoryFilter, category]
+    );
+  };
+
+  // Offer chips for categories found in view, plus any still selected
+  const visibleCategories = LANDMARK_CATEGORIES.filter(
+    (category) => categoryCounts[category.id] || categoryFilter.includes(category.id)
+  );
+
   // Calculate distances (mock implementation)
   const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
     const R = 6371; // Radius of the earth in km
@@ -107,7 +142,7 @@ const LandmarkPanel = ({
           <div className="relative flex-1">
             <Input 
               type="text" 
-              placeholder="Filter landmarks..." 
+              placeholder="Search landmarks..." 
               className="w-full pl-9 pr-3 py-2 text-sm"
               value={filterValue}
               onChange={(e) => onFilterChange(e.target.value)}
@@ -119,15 +154,44 @@ const LandmarkPanel = ({
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="relevance">Relevance</SelectItem>
+              <SelectItem value="notability">Notability</SelectItem>
               <SelectItem value="distance">Distance</SelectItem>
               <SelectItem value="alphabetical">Alphabetical</SelectItem>
             </SelectContent>
           </Select>
         </div>
+        {visibleCategories.length > 0 && (
+          <div className="flex gap-2 mt-2 overflow-x-auto custom-scrollbar pb-1">
+            {visibleCategories.map((category) => {
+              const isActive = categoryFilter.includes(category.id);
+              return (
+                <button
+                  key={category.id}
+                  type="button"
+                  aria-pressed={isActive}
+                  onClick={() => toggleCategory(category.id)}
+                  className={`flex items-center gap-1 whitespace-nowrap rounded-full border px-2.5 py-0.5 text-xs font-medium transition-colors ${
+                    isActive ? 'text-white border-transparent' : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+                  style={isActive ? { backgroundColor: category.color } : undefined}
+                >
+                  <CategoryIcon
+                    category={category.id}
+                    className="h-3 w-3"
+                    style={isActive ? undefined : { color: category.color }}
+                  />
+                  {category.name}
+                  <span className={isActive ? 'text-white/80' : 'text-gray-400'}>{categoryCounts[category.id] ?? 0}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Landmark List */}
-      <div className="overflow-y-auto custom-scrollbar" style={{ height: "calc(100% - 124px)" }}>
+      <div className="overflow-y-auto custom-scrollbar" style={{ height: `calc(100% - ${visibleCategories.length > 0 ? 160 : 124}px)` }}>
         <ul className="divide-y divide-gray-200">
           {loading ? (
             // Loading skeleton items
@@ -169,16 +233,24 @@ const LandmarkPanel = ({
                   </div>
                   <div className="flex-1">
                     <h3 className={`font-medium ${selectedLandmark?.pageid === landmark.pageid ? 'text-blue-600' : ''}`}>
-                      {landmark.title}
+                      <HighlightedText text={landmark.title} query={filterValue} />
                     </h3>
                     <p className="text-sm text-gray-600 line-clamp-2">
-                      {landmark.description || "No description available."}
+                      {landmark.description ? (
+                        <HighlightedText text={excerptAroundMatch(landmark.description, filterValue)} query={filterValue} />
+                      ) : (
+                        "No description available."
+                      )}
                     </p>
                     <div className="flex items-center mt-1 text-xs text-gray-500">
                       <span className="material-icons text-xs mr-1">place</span>
                       <span>
                         {landmark.distance ? formatDistance(landmark.distance) : "Distance unavailable"}
                       </span>
+                      <span className="flex items-center ml-3" style={{ color: getCategory(landmark.category).color }}>
+                        <CategoryIcon category={landmark.category} className="h-3 w-3 mr-1" />
+                        {getCategory(landmark.category).name}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { Languages } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SUPPORTED_LANGUAGES } from '@shared/languages';
+
+type LanguageSelectorProps = {
+  selectedLanguage: string;
+  onSelectLanguage: (code: string) => void;
+};
+
+const LanguageSelector = ({
+  selectedLanguage,
+  onSelectLanguage,
+}: LanguageSelectorProps) => {
+  const selected = SUPPORTED_LANGUAGES.find(lang => lang.code === selectedLanguage) || SUPPORTED_LANGUAGES[0];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-2"
+          title="Wikipedia language"
+        >
+          <Languages className="h-5 w-5 text-gray-600" />
+          <span className="hidden sm:inline">{selected.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+        {SUPPORTED_LANGUAGES.map(lang => (
+          <DropdownMenuItem
+            key={lang.code}
+            className={`${lang.code === selectedLanguage ? 'bg-blue-50 font-medium' : ''}`}
+            onClick={() => onSelectLanguage(lang.code)}
+          >
+            {lang.name}
+            <span className="ml-auto pl-4 text-xs text-gray-500">{lang.code}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LanguageSelector;
@@ -1,85 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { LatLngExpression, LatLng } from 'leaflet';
+import L, { LatLngExpression } from 'leaflet';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { MapPin, Compass, Navigation, MapIcon } from 'lucide-react';
-import { formatDistance } from '@/lib/distance';
-import { apiRequest } from '@/lib/queryClient';
+import { ReverseGeocodeResult } from '@/types';
+
+const COORDINATE_PRECISION = 4; // Round positions so small movements reuse the last lookup
 
 interface LocationInfoPanelProps {
   position: LatLngExpression | null;
   visible: boolean;
 }
 
-interface GeocodingResult {
-  display_name: string;
-  address: {
-    road?: string;
-    suburb?: string;
-    city?: string;
-    state?: string;
-    country?: string;
-    postcode?: string;
-  };
-}
-
 const LocationInfoPanel = ({ position, visible }: LocationInfoPanelProps) => {
-  const [locationInfo, setLocationInfo] = useState<GeocodingResult | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  useEffect(() => {
-    async function fetchLocationInfo() {
-      if (!position || !visible) {
-        return;
-      }
-
-      setLoading(true);
-      try {
-        // Convert position to coordinates
-        let lat: number = 0, lng: number = 0;
-        
-        try {
-          if (Array.isArray(position)) {
-            lat = Number(position[0]);
-            lng = Number(position[1]);
-          } else if (typeof position === 'object' && position !== null) {
-            // Handle LatLng object
-            if ('lat' in position) {
-              lat = Number(typeof position.lat === 'function' ? position.lat() : position.lat);
-            }
-            if ('lng' in position) {
-              lng = Number(typeof position.lng === 'function' ? position.lng() : position.lng);
-            }
-          }
-        } catch (e) {
-          console.error('Error parsing coordinates:', e);
-        }
-        
-        if (lat === undefined || lng === undefined) {
-          console.error('Could not extract coordinates from position');
-          setLoading(false);
-          return;
-        }
-        
-        // Use OpenStreetMap's Nominatim for reverse geocoding
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`,
-          { headers: { 'Accept-Language': 'en-US,en' } }
-        );
-        
-        if (response.ok) {
-          const data = await response.json();
-          setLocationInfo(data);
-        }
-      } catch (error) {
-        console.error('Error fetching location info:', error);
-      } finally {
-        setLoading(false);
-      }
-    }
+  const coords = position ? L.latLng(position) : null;
+  const lat = coords?.lat.toFixed(COORDINATE_PRECISION);
+  const lon = coords?.lng.toFixed(COORDINATE_PRECISION);
 
-    fetchLocationInfo();
-  }, [position, visible]);
+  // Reverse geocode through the server, which caches and throttles Nominatim requests
+  const { data: locationInfo, isLoading: loading } = useQuery<ReverseGeocodeResult>({
+    queryKey: [`/api/reverse-geocode?lat=${lat}&lon=${lon}`],
+    enabled: visible && !!coords,
+  });
 
   if (!visible || !position) {
     return null;
@@ -119,28 +61,7 @@ const LocationInfoPanel = ({ position, visible }: LocationInfoPanelProps) => {
             
             <div className="text-xs text-gray-500 pt-1 flex items-center">
               <Compass className="h-3 w-3 mr-1" />
-              Coordinates: {(() => {
-                let lat: number = 0, lng: number = 0;
-                
-                try {
-                  if (Array.isArray(position)) {
-                    lat = Number(position[0]);
-                    lng = Number(position[1]);
-                  } else if (typeof position === 'object' && position !== null) {
-                    // Handle LatLng object
-                    if ('lat' in position) {
-                      lat = Number(typeof position.lat === 'function' ? position.lat() : position.lat);
-                    }
-                    if ('lng' in position) {
-                      lng = Number(typeof position.lng === 'function' ? position.lng() : position.lng);
-                    }
-                  }
-                } catch (e) {
-                  console.error('Error parsing coordinates:', e);
-                }
-                
-                return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
-              })()}
+              Coordinates: {coords ? `${coords.lat.toFixed(5)}, ${coords.lng.toFixed(5)}` : ''}
             </div>
           </div>
         ) : (
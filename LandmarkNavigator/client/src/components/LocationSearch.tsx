@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BookOpen, MapPin } from 'lucide-react';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { GeocodeResult } from '@/types';
+import { useDebounce } from '@/hooks/use-debounce';
+
+const MIN_QUERY_LENGTH = 3;
+const DEBOUNCE_DELAY = 300; // ms
+
+type LocationSearchProps = {
+  language: string;
+  onSelectResult: (result: GeocodeResult) => void;
+};
+
+const LocationSearch = ({ language, onSelectResult }: LocationSearchProps) => {
+  const [searchValue, setSearchValue] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const debouncedQuery = useDebounce(searchValue.trim(), DEBOUNCE_DELAY);
+  const canSearch = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const params = new URLSearchParams({ q: debouncedQuery, lang: language });
+  const { data: results, isFetching } = useQuery<GeocodeResult[]>({
+    queryKey: [`/api/geocode?${params}`],
+    enabled: canSearch,
+  });
+
+  const handleSelect = (result: GeocodeResult) => {
+    setSearchValue(result.display_name.split(',')[0]);
+    setIsOpen(false);
+    onSelectResult(result);
+  };
+
+  return (
+    <Command shouldFilter={false} className="relative overflow-visible rounded-md border bg-white shadow-md">
+      <CommandInput
+        placeholder="Search for location..."
+        className="h-10 py-2"
+        value={searchValue}
+        onValueChange={(value) => {
+          setSearchValue(value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setIsOpen(false);
+          }
+        }}
+      />
+      {isOpen && canSearch && (
+        <CommandList className="absolute top-full left-0 right-0 mt-1 rounded-md border bg-white shadow-lg">
+          {isFetching && !results ? (
+            <div className="py-6 text-center text-sm text-gray-500">Searching...</div>
+          ) : (
+            <CommandEmpty>No places found.</CommandEmpty>
+          )}
+          {results?.map((result, index) => (
+            <CommandItem
+              key={`${result.source}-${index}`}
+              value={`${result.source}-${index}`}
+              onMouseDown={(e) => e.preventDefault()} // Keep focus so the click is not lost to onBlur
+              onSelect={() => handleSelect(result)}
+              className="flex items-start gap-2"
+            >
+              {result.source === 'wikipedia' ? (
+                <BookOpen className="h-4 w-4 mt-0.5 shrink-0 text-blue-500" />
+              ) : (
+                <MapPin className="h-4 w-4 mt-0.5 shrink-0 text-orange-500" />
+              )}
+              <div className="min-w-0">
+                <div className="truncate">{result.display_name}</div>
+                <div className="text-xs text-gray-500 capitalize">{result.type.replace(/_/g, ' ')}</div>
+              </div>
+            </CommandItem>
+          ))}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default LocationSearch;
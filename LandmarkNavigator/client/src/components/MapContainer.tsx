@@ -1,29 +1,40 @@
 import { useEffect, useRef, useState } from 'react';
-import { MapContainer as LeafletMap, TileLayer, ZoomControl, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer as LeafletMap, Polyline, TileLayer, ZoomControl, useMap, useMapEvents } from 'react-leaflet';
 import { LatLngBounds, LatLngExpression } from 'leaflet';
 import LandmarkMarker from './LandmarkMarker';
+import ClusterMarker from './ClusterMarker';
 import UserLocationMarker from './UserLocationMarker';
-import MapStyleSelector, { MapStyle, MAP_STYLES } from './MapStyleSelector';
+import TourLayer from './TourLayer';
+import MapStyleSelector, { MapStyle } from './MapStyleSelector';
 import LocationInfoPanel from './LocationInfoPanel';
 import Loading from './Loading';
 import ErrorDisplay from './ErrorDisplay';
-import { Landmark } from '@/types';
-import { Input } from '@/components/ui/input';
+import LocationSearch from './LocationSearch';
+import { GeocodeResult, Landmark, LandmarkCluster, MapViewport } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Search, Plus, Minus, Crosshair, MapPin, Info } from 'lucide-react';
+import { Plus, Minus, Crosshair, MapPin, Info } from 'lucide-react';
+
+const DEFAULT_ZOOM = 13;
+const MIN_ZOOM = 3; // Further out the world repeats across the screen
+const ROUTE_COLOR = '#2563eb';
 
 type MapContainerProps = {
-  landmarks: Landmark[];
+  clusters: LandmarkCluster[];
   selectedLandmark: Landmark | null;
   onSelectLandmark: (landmark: Landmark) => void;
   loading: boolean;
   error: string | null;
-  onBoundsChange: (bounds: LatLngBounds) => void;
-  onSearchLocation: (location: string) => void;
-  center: LatLngExpression | null;
-  setCenter: (center: LatLngExpression) => void;
+  onBoundsChange: (bounds: LatLngBounds, zoom: number) => void;
+  onSelectLocation: (result: GeocodeResult) => void;
+  language: string;
+  viewport: MapViewport | null;
+  setViewport: (viewport: MapViewport) => void;
+  mapStyle: MapStyle;
+  onSelectMapStyle: (style: MapStyle) => void;
+  routeLine?: [number, number][] | null;
+  tourStops?: Landmark[];
   onRefetch: () => void;
   userPosition: LatLngExpression | null;
   userAccuracy: number | null;
@@ -33,51 +44,59 @@ type MapContainerProps = {
 };
 
 // This component updates parent with map bounds
-function MapBoundsHandler({ onBoundsChange }: { onBoundsChange: (bounds: LatLngBounds) => void }) {
+function MapBoundsHandler({ onBoundsChange }: { onBoundsChange: (bounds: LatLngBounds, zoom: number) => void }) {
   const map = useMap();
   
   const mapEvents = useMapEvents({
     moveend: () => {
-      onBoundsChange(map.getBounds());
+      onBoundsChange(map.getBounds(), map.getZoom());
     },
     zoomend: () => {
-      onBoundsChange(map.getBounds());
+      onBoundsChange(map.getBounds(), map.getZoom());
     },
     load: () => {
-      onBoundsChange(map.getBounds());
+      onBoundsChange(map.getBounds(), map.getZoom());
     }
   });
   
   useEffect(() => {
-    onBoundsChange(map.getBounds());
+    onBoundsChange(map.getBounds(), map.getZoom());
   }, [map, onBoundsChange]);
   
   return null;
 }
 
-// This component recenter the map when center prop changes
-function MapCenterHandler({ center }: { center: LatLngExpression | null }) {
+// This component moves the map when the viewport prop changes
+function MapViewportHandler({ viewport }: { viewport: MapViewport }) {
   const map = useMap();
   
   useEffect(() => {
-    if (center) {
-      map.setView(center, 13);
+    if (viewport.bounds) {
+      const { north, south, east, west } = viewport.bounds;
+      map.fitBounds([[south, west], [north, east]]);
+    } else {
+      map.setView(viewport.center, viewport.zoom ?? DEFAULT_ZOOM);
     }
-  }, [map, center]);
+  }, [map, viewport]);
   
   return null;
 }
 
 const MapContainer = ({
-  landmarks,
+  clusters,
   selectedLandmark,
   onSelectLandmark,
   loading,
   error,
   onBoundsChange,
-  onSearchLocation,
-  center,
-  setCenter,
+  onSelectLocation,
+  language,
+  viewport,
+  setViewport,
+  mapStyle,
+  onSelectMapStyle,
+  routeLine,
+  tourStops = [],
   onRefetch,
   userPosition,
   userAccuracy,
@@ -85,38 +104,14 @@ const MapContainer = ({
   followUserMode,
   toggleLocationTracking
 }: MapContainerProps) => {
-  const [searchValue, setSearchValue] = useState('');
   const mapRef = useRef<any>(null);
-  const [mapStyle, setMapStyle] = useState<MapStyle>({
-    id: 'streets',
-    name: 'Streets',
-    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
-  });
   const [showLocationInfo, setShowLocationInfo] = useState(false);
-  
-  // Load saved map style preference from localStorage
-  useEffect(() => {
-    const savedStyleId = localStorage.getItem('mapStylePreference');
-    if (savedStyleId) {
-      const savedStyle = MAP_STYLES.find(style => style.id === savedStyleId);
-      if (savedStyle) {
-        setMapStyle(savedStyle);
-      }
-    }
-  }, []);
-
-  const handleSearchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchValue.trim()) {
-      onSearchLocation(searchValue);
-    }
-  };
 
   const handleGetCurrentLocation = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setCenter([position.coords.latitude, position.coords.longitude]);
+          setViewport({ center: [position.coords.latitude, position.coords.longitude] });
         },
         (error) => {
           console.error("Error getting location:", error);
@@ -125,18 +120,14 @@ const MapContainer = ({
     }
   };
   
-  const handleSelectMapStyle = (style: MapStyle) => {
-    setMapStyle(style);
-    localStorage.setItem('mapStylePreference', style.id);
-  };
-
-  const defaultCenter: LatLngExpression = center || [51.505, -0.09]; // Default to London
+  const defaultCenter: LatLngExpression = viewport?.center || [51.505, -0.09]; // Default to London
 
   return (
     <div className="relative flex-1">
       <LeafletMap 
         center={defaultCenter} 
-        zoom={13} 
+        zoom={viewport?.zoom ?? DEFAULT_ZOOM} 
+        minZoom={MIN_ZOOM}
         zoomControl={false}
         className="h-full w-full"
         ref={mapRef}
@@ -147,15 +138,30 @@ const MapContainer = ({
         />
         
         <MapBoundsHandler onBoundsChange={onBoundsChange} />
-        {center && <MapCenterHandler center={center} />}
+        {viewport && <MapViewportHandler viewport={viewport} />}
         
-        {landmarks.map((landmark) => (
-          <LandmarkMarker
-            key={landmark.pageid}
-            landmark={landmark}
-            isSelected={selectedLandmark?.pageid === landmark.pageid}
-            onSelect={() => onSelectLandmark(landmark)}
-          />
+        {routeLine && routeLine.length > 1 && (
+          <Polyline positions={routeLine} pathOptions={{ color: ROUTE_COLOR, weight: 5, opacity: 0.8 }} />
+        )}
+
+        {tourStops.length > 0 && <TourLayer stops={tourStops} onSelectStop={onSelectLandmark} />}
+
+        {clusters.map((cluster) => (
+          cluster.count === 1 ? (
+            <LandmarkMarker
+              key={cluster.id}
+              landmark={cluster.landmarks[0]}
+              isSelected={selectedLandmark?.pageid === cluster.landmarks[0].pageid}
+              onSelect={() => onSelectLandmark(cluster.landmarks[0])}
+            />
+          ) : (
+            <ClusterMarker
+              key={cluster.id}
+              cluster={cluster}
+              isSelected={!!selectedLandmark && !!cluster.members?.some((landmark) => landmark.pageid === selectedLandmark.pageid)}
+              onSelectLandmark={onSelectLandmark}
+            />
+          )
         ))}
         
         {userPosition && (
@@ -237,22 +243,13 @@ const MapContainer = ({
 
       {/* Map Search */}
       <div className="absolute top-4 left-4 w-64 sm:w-80 z-10">
-        <form onSubmit={handleSearchSubmit} className="relative">
-          <Input
-            type="text"
-            placeholder="Search for location..."
-            className="pl-10 pr-4 py-2 shadow-md"
-            value={searchValue}
-            onChange={(e) => setSearchValue(e.target.value)}
-          />
-          <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
-        </form>
+        <LocationSearch language={language} onSelectResult={onSelectLocation} />
       </div>
       
       {/* Map Style Selector */}
       <MapStyleSelector 
         selectedStyleId={mapStyle.id}
-        onSelectStyle={handleSelectMapStyle}
+        onSelectStyle={onSelectMapStyle}
       />
 
       {/* Loading Overlay */}
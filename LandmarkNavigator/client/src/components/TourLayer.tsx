@@ -0,0 +1,55 @@
+import { Marker, Polyline, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { Landmark } from '@/types';
+import { bookmarkKey } from '@shared/bookmarks';
+
+const TOUR_COLOR = '#7c3aed';
+
+// Create a numbered stop icon
+const createStopIcon = (number: number) => {
+  return L.divIcon({
+    className: 'custom-marker',
+    html: `
+      <div class="w-7 h-7 rounded-full border-2 border-white text-white text-sm font-semibold flex items-center justify-center shadow-lg" style="background-color: ${TOUR_COLOR};">
+        ${number}
+      </div>
+    `,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+};
+
+type TourLayerProps = {
+  stops: Landmark[];
+  onSelectStop: (landmark: Landmark) => void;
+};
+
+const TourLayer = ({ stops, onSelectStop }: TourLayerProps) => {
+  return (
+    <>
+      {stops.length > 1 && (
+        <Polyline
+          positions={stops.map((stop) => [stop.lat, stop.lon] as [number, number])}
+          pathOptions={{ color: TOUR_COLOR, weight: 4, opacity: 0.8, dashArray: '8 8' }}
+        />
+      )}
+      {stops.map((stop, index) => (
+        <Marker
+          key={bookmarkKey(stop)}
+          position={[stop.lat, stop.lon]}
+          icon={createStopIcon(index + 1)}
+          zIndexOffset={1000} // Above the landmark markers at the same spot
+          eventHandlers={{
+            click: () => onSelectStop(stop),
+          }}
+        >
+          <Tooltip>
+            <div className="font-semibold">{index + 1}. {stop.title}</div>
+          </Tooltip>
+        </Marker>
+      ))}
+    </>
+  );
+};
+
+export default TourLayer;
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { GripVertical, Plus, Route, Sparkles, Trash2, X } from 'lucide-react';
+import { Landmark } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { formatDistance } from '@/lib/distance';
+import { haversineDistance, planTour, tourDistance } from '@/lib/tour';
+import { bookmarkKey } from '@shared/bookmarks';
+
+type TourPlannerProps = {
+  bookmarks: Landmark[];
+  stops: Landmark[];
+  onStopsChange: (stops: Landmark[]) => void;
+  startPosition: [number, number] | null; // The user's position, when known
+  onSelectLandmark: (landmark: Landmark) => void;
+  onClose: () => void;
+};
+
+const TourPlanner = ({ bookmarks, stops, onStopsChange, startPosition, onSelectLandmark, onClose }: TourPlannerProps) => {
+  const [startFromPosition, setStartFromPosition] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const start = startFromPosition && startPosition ? { lat: startPosition[0], lon: startPosition[1] } : null;
+  const stopKeys = new Set(stops.map(bookmarkKey));
+  const availableBookmarks = bookmarks.filter((bookmark) => !stopKeys.has(bookmarkKey(bookmark)));
+  const totalDistance = tourDistance(start ? [start, ...stops] : stops, haversineDistance);
+
+  const handleOptimize = () => {
+    onStopsChange(planTour(stops, haversineDistance, start ?? undefined));
+  };
+
+  const handleRemoveStop = (removed: Landmark) => {
+    onStopsChange(stops.filter((stop) => stop !== removed));
+  };
+
+  // Move the dragged stop to the position it is dragged over
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) {
+      return;
+    }
+    const reordered = [...stops];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(index, 0, moved);
+    onStopsChange(reordered);
+    setDragIndex(index);
+  };
+
+  return (
+    <Sheet open={true} modal={false} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side="left"
+        className="w-full sm:max-w-sm p-0 flex flex-col"
+        onInteractOutside={(e) => e.preventDefault()} // Keep the sheet open while the map is used
+      >
+        <SheetHeader className="p-4 border-b">
+          <SheetTitle className="text-left flex items-center gap-2">
+            <Route className="h-5 w-5" />
+            Plan a Tour
+          </SheetTitle>
+          <SheetDescription className="text-left">
+            {stops.length === 0
+              ? 'Add saved places to plan a walking tour.'
+              : `${stops.length} ${stops.length === 1 ? 'stop' : 'stops'} · ${formatDistance(totalDistance)} in straight lines`}
+          </SheetDescription>
+          {startPosition && (
+            <div className="flex items-center gap-2 pt-2">
+              <Switch id="tour-start" checked={startFromPosition} onCheckedChange={setStartFromPosition} />
+              <Label htmlFor="tour-start" className="text-sm">Start from my location</Label>
+            </div>
+          )}
+          <div className="flex gap-2 pt-2">
+            <Button size="sm" className="flex items-center" onClick={handleOptimize} disabled={stops.length < 2}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Optimize order
+            </Button>
+            <Button variant="outline" size="sm" className="flex items-center" onClick={() => onStopsChange([])} disabled={stops.length === 0}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          <ol className="space-y-1">
+            {stops.map((stop, index) => (
+              <li
+                key={bookmarkKey(stop)}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-2 rounded-md border p-2 text-sm bg-white ${dragIndex === index ? 'opacity-50' : ''}`}
+              >
+                <GripVertical className="h-4 w-4 text-gray-400 cursor-grab flex-shrink-0" />
+                <span className="flex-shrink-0 w-5 h-5 rounded-full bg-violet-600 text-white text-xs flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <button className="flex-1 text-left line-clamp-1 hover:underline" onClick={() => onSelectLandmark(stop)}>
+                  {stop.title}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 text-gray-500 hover:text-red-500"
+                  onClick={() => handleRemoveStop(stop)}
+                  aria-label={`Remove ${stop.title} from the tour`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+
+          {availableBookmarks.length > 0 && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between px-2 mb-1">
+                <h3 className="font-medium text-sm text-gray-900">Saved places</h3>
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => onStopsChange([...stops, ...availableBookmarks])}>
+                  Add all
+                </Button>
+              </div>
+              <ul className="space-y-1">
+                {availableBookmarks.map((bookmark) => (
+                  <li key={bookmarkKey(bookmark)} className="flex items-center gap-2 rounded-md p-2 text-sm hover:bg-gray-50">
+                    <span className="flex-1 line-clamp-1">{bookmark.title}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => onStopsChange([...stops, bookmark])}
+                      aria-label={`Add ${bookmark.title} to the tour`}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {bookmarks.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">Save landmarks to add them to a tour.</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TourPlanner;
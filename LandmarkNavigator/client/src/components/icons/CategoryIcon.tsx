@@ -0,0 +1,35 @@
+import {
+  Award,
+  Building2,
+  Castle,
+  Church,
+  Drama,
+  GraduationCap,
+  Landmark,
+  LucideIcon,
+  LucideProps,
+  MapPin,
+  Palette,
+  TrainFront,
+  Trees,
+} from "lucide-react";
+import { DEFAULT_CATEGORY, LandmarkCategory } from "@shared/categories";
+
+export const CATEGORY_ICONS: Record<LandmarkCategory, LucideIcon> = {
+  museum: Palette,
+  religious: Church,
+  monument: Award,
+  castle: Castle,
+  historic: Landmark,
+  nature: Trees,
+  architecture: Building2,
+  transport: TrainFront,
+  education: GraduationCap,
+  entertainment: Drama,
+  other: MapPin,
+};
+
+export function CategoryIcon({ category, ...props }: LucideProps & { category?: LandmarkCategory }) {
+  const Icon = CATEGORY_ICONS[category ?? DEFAULT_CATEGORY];
+  return <Icon {...props} />;
+}
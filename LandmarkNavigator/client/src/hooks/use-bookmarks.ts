@@ -1,57 +1,263 @@
-import { useState, useEffect } from 'react';
-import { Landmark } from '@/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Bookmark, BookmarkCollection, Landmark } from '@/types';
+import { BookmarkRecord, BookmarkSyncResponse, bookmarkKey } from '@shared/bookmarks';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  BookmarkStore,
+  applyLocalChanges,
+  applySyncResponse,
+  createBookmark,
+  createCollection as newCollection,
+  linkSyncAccount,
+  loadBookmarkStore,
+  normalizeTags,
+  pendingSyncRecords,
+  saveBookmarkStore,
+  unlinkSyncAccount
+} from '@/lib/bookmarks';
+
+const SYNC_DEBOUNCE_MS = 1000; // Wait for a burst of edits to finish before sending them
+const SYNC_INTERVAL_MS = 5 * 60 * 1000; // Fetch changes from other devices this often
+
+// Bookmark fields the user can edit
+export type BookmarkChanges = Partial<Pick<Bookmark, 'note' | 'tags' | 'visited' | 'collectionIds'>>;
+
+export interface BookmarkSyncStatus {
+  code: string | null;
+  syncing: boolean;
+  pendingCount: number;
+  lastSyncedAt: number | null;
+  error: string | null;
+  enable: () => void;
+  link: (code: string) => void;
+  disable: () => void;
+  syncNow: () => void;
+}
+
+type SyncVariables = {
+  code: string;
+  records: BookmarkRecord[];
+  since: number;
+};
 
 export function useBookmarks() {
-  const [bookmarks, setBookmarks] = useState<Landmark[]>([]);
-  
-  // Load bookmarks from localStorage on component mount
+  // Load bookmarks from localStorage, migrating older formats, on first render
+  const [store, setStore] = useState<BookmarkStore>(loadBookmarkStore);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  // Deleted bookmarks and collections stay in the store as tombstones until the server has them
+  const bookmarks = store.bookmarks.filter((bookmark) => !bookmark.deleted);
+  const collections = store.collections.filter((collection) => !collection.deleted);
+
+  // Save bookmarks to localStorage whenever they change
   useEffect(() => {
-    try {
-      const savedBookmarks = localStorage.getItem('landmarkBookmarks');
-      if (savedBookmarks) {
-        setBookmarks(JSON.parse(savedBookmarks));
+    saveBookmarkStore(store);
+  }, [store]);
+
+  // Send queued changes and fetch everything changed elsewhere since the last sync.
+  // While offline the mutation is paused and runs once the connection is back; the
+  // queue itself is kept in localStorage, so changes also survive a reload.
+  const syncMutation = useMutation({
+    mutationFn: async ({ code, records, since }: SyncVariables): Promise<BookmarkSyncResponse> => {
+      const response = await apiRequest('POST', '/api/bookmarks/sync', { records, since }, {
+        Authorization: `Bearer ${code}`
+      });
+      return response.json();
+    },
+    onSuccess: (response, { code, records }) => {
+      setSyncError(null);
+      setStore((prev) => prev.sync.code === code ? applySyncResponse(prev, records, response) : prev);
+    },
+    onError: (error, { code }) => {
+      if (error.message.startsWith('401')) {
+        // The account doesn't exist (a mistyped code), so stop trying to sync with it
+        setSyncError('That sync code was not recognized.');
+        setStore((prev) => prev.sync.code === code ? unlinkSyncAccount(prev) : prev);
+      } else {
+        setSyncError('Could not sync saved places. Changes will be sent later.');
       }
-    } catch (error) {
-      console.error('Failed to load bookmarks from localStorage:', error);
     }
-  }, []);
-  
-  // Save bookmarks to localStorage whenever they change
+  });
+  const { mutate: mutateSync, isPending: syncing } = syncMutation;
+
+  const syncingRef = useRef(false);
+  syncingRef.current = syncing;
+
+  const syncNow = useCallback(() => {
+    const current = storeRef.current;
+    if (!current.sync.code || syncingRef.current) {
+      return;
+    }
+    syncingRef.current = true;
+    mutateSync({ code: current.sync.code, records: pendingSyncRecords(current), since: current.sync.since });
+  }, [mutateSync]);
+
+  const createAccountMutation = useMutation({
+    mutationFn: async (): Promise<{ code: string }> => {
+      const response = await apiRequest('POST', '/api/bookmarks/accounts');
+      return response.json();
+    },
+    onSuccess: ({ code }) => {
+      setSyncError(null);
+      setStore((prev) => linkSyncAccount(prev, code));
+    },
+    onError: () => {
+      setSyncError('Could not turn on sync. Please try again.');
+    }
+  });
+
+  // Send changes shortly after they are made, including changes queued while offline
   useEffect(() => {
-    try {
-      localStorage.setItem('landmarkBookmarks', JSON.stringify(bookmarks));
-    } catch (error) {
-      console.error('Failed to save bookmarks to localStorage:', error);
+    if (!store.sync.code || store.sync.pending.length === 0) {
+      return;
     }
-  }, [bookmarks]);
-  
-  const isBookmarked = (landmarkId: number): boolean => {
-    return bookmarks.some((bookmark) => bookmark.pageid === landmarkId);
-  };
-  
-  const addBookmark = (landmark: Landmark) => {
-    if (!isBookmarked(landmark.pageid)) {
-      setBookmarks((prev) => [...prev, { ...landmark, isBookmarked: true }]);
+    const timeout = setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [store.sync.code, store.sync.pending, syncNow]);
+
+  // Pick up changes from other devices periodically and whenever the app comes back into view
+  useEffect(() => {
+    if (!store.sync.code) {
+      return;
     }
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('focus', syncNow);
+    window.addEventListener('online', syncNow);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', syncNow);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [store.sync.code, syncNow]);
+
+  // Page IDs are only unique within a language, so bookmarks are looked up by both
+  const isBookmarked = useCallback((landmark: Landmark): boolean => {
+    return !!findBookmark(store.bookmarks, landmark);
+  }, [store.bookmarks]);
+
+  const addBookmark = (landmark: Landmark, collectionId?: string) => {
+    setStore((prev) => findBookmark(prev.bookmarks, landmark)
+      ? prev
+      : applyLocalChanges(prev, {
+          bookmarks: [createBookmark(landmark, { collectionIds: collectionId ? [collectionId] : [] })]
+        }));
   };
-  
-  const removeBookmark = (landmarkId: number) => {
-    setBookmarks((prev) => prev.filter((bookmark) => bookmark.pageid !== landmarkId));
+
+  const removeBookmark = (landmark: Landmark) => {
+    setStore((prev) => {
+      const bookmark = findBookmark(prev.bookmarks, landmark);
+      return bookmark
+        ? applyLocalChanges(prev, { bookmarks: [{ ...bookmark, deleted: true, updatedAt: Date.now() }] })
+        : prev;
+    });
   };
-  
+
   const toggleBookmark = (landmark: Landmark) => {
-    if (isBookmarked(landmark.pageid)) {
-      removeBookmark(landmark.pageid);
+    if (isBookmarked(landmark)) {
+      removeBookmark(landmark);
     } else {
       addBookmark(landmark);
     }
   };
-  
+
+  const updateBookmark = (landmark: Landmark, changes: BookmarkChanges) => {
+    setStore((prev) => {
+      const bookmark = findBookmark(prev.bookmarks, landmark);
+      return bookmark
+        ? applyLocalChanges(prev, {
+            bookmarks: [{
+              ...bookmark,
+              ...changes,
+              tags: changes.tags ? normalizeTags(changes.tags) : bookmark.tags,
+              updatedAt: Date.now()
+            }]
+          })
+        : prev;
+    });
+  };
+
+  const createCollection = (name: string): BookmarkCollection => {
+    const collection = newCollection(name);
+    setStore((prev) => applyLocalChanges(prev, { collections: [collection] }));
+    return collection;
+  };
+
+  const renameCollection = (collectionId: string, name: string) => {
+    setStore((prev) => {
+      const collection = prev.collections.find((c) => c.id === collectionId && !c.deleted);
+      return collection
+        ? applyLocalChanges(prev, { collections: [{ ...collection, name: name.trim(), updatedAt: Date.now() }] })
+        : prev;
+    });
+  };
+
+  // Deleting a collection keeps its bookmarks, they just leave the collection
+  const deleteCollection = (collectionId: string) => {
+    const now = Date.now();
+    setStore((prev) => {
+      const collection = prev.collections.find((c) => c.id === collectionId && !c.deleted);
+      if (!collection) {
+        return prev;
+      }
+      return applyLocalChanges(prev, {
+        collections: [{ ...collection, deleted: true, updatedAt: now }],
+        bookmarks: prev.bookmarks
+          .filter((bookmark) => !bookmark.deleted && bookmark.collectionIds.includes(collectionId))
+          .map((bookmark) => ({
+            ...bookmark,
+            collectionIds: bookmark.collectionIds.filter((id) => id !== collectionId),
+            updatedAt: now
+          }))
+      });
+    });
+  };
+
+  // Every tag in use, alphabetically
+  const tags = Array.from(new Set(bookmarks.flatMap((bookmark) => bookmark.tags))).sort();
+
+  const sync: BookmarkSyncStatus = {
+    code: store.sync.code,
+    syncing: syncing || createAccountMutation.isPending,
+    pendingCount: store.sync.pending.length,
+    lastSyncedAt: store.sync.since || null,
+    error: syncError,
+    enable: () => createAccountMutation.mutate(),
+    link: (code: string) => {
+      setSyncError(null);
+      setStore((prev) => linkSyncAccount(prev, code.trim().toUpperCase()));
+    },
+    // Bookmarks stay on this device; they just stop syncing
+    disable: () => {
+      setSyncError(null);
+      setStore(unlinkSyncAccount);
+    },
+    syncNow
+  };
+
   return {
     bookmarks,
+    collections,
+    tags,
+    sync,
     isBookmarked,
     addBookmark,
     removeBookmark,
-    toggleBookmark
+    toggleBookmark,
+    updateBookmark,
+    createCollection,
+    renameCollection,
+    deleteCollection
   };
-}
\ No newline at end of file
+}
+
+/**
+ * The saved, not deleted bookmark of a landmark
+ */
+function findBookmark(bookmarks: Bookmark[], landmark: Landmark): Bookmark | undefined {
+  const key = bookmarkKey(landmark);
+  return bookmarks.find((bookmark) => !bookmark.deleted && bookmarkKey(bookmark) === key);
+}
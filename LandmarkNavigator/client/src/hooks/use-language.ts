@@ -0,0 +1,24 @@
+import { useState } from 'react';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '@shared/languages';
+
+export function useLanguage(linkedLanguage?: string) {
+  // A language from a shared link wins over the saved preference in localStorage
+  const [language, setLanguageState] = useState<string>(() => {
+    const initialLanguage = linkedLanguage || localStorage.getItem('wikipediaLanguage');
+    return initialLanguage && SUPPORTED_LANGUAGES.some(lang => lang.code === initialLanguage)
+      ? initialLanguage
+      : DEFAULT_LANGUAGE;
+  });
+
+  const setLanguage = (code: string) => {
+    setLanguageState(code);
+    // Save preference to localStorage
+    localStorage.setItem('wikipediaLanguage', code);
+  };
+
+  return {
+    language,
+    setLanguage,
+    allLanguages: SUPPORTED_LANGUAGES
+  };
+}
@@ -1,14 +1,24 @@
-import { useState } from 'react';
-import { LatLngBounds, LatLngExpression } from 'leaflet';
+import { useState, useCallback } from 'react';
+import { LatLngBounds } from 'leaflet';
+import { MapViewport } from '@/types';
 
-export function useMapBounds() {
+export function useMapBounds(initialViewport: MapViewport | null = null) {
   const [bounds, setBounds] = useState<LatLngBounds | null>(null);
-  const [center, setCenter] = useState<LatLngExpression | null>(null);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [viewport, setViewport] = useState<MapViewport | null>(initialViewport);
+
+  // Update bounds and zoom together whenever the map moves
+  const updateView = useCallback((newBounds: LatLngBounds, newZoom: number) => {
+    setBounds(newBounds);
+    setZoom(newZoom);
+  }, []);
 
   return {
     bounds,
     setBounds,
-    center,
-    setCenter
+    zoom,
+    updateView,
+    viewport,
+    setViewport
   };
 }
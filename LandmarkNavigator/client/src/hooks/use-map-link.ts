@@ -0,0 +1,26 @@
+import { useState, useCallback } from 'react';
+import { useLocation, useParams, useSearch } from 'wouter';
+import { MapLinkState, buildMapLink, parseMapLink } from '@/lib/map-link';
+
+export function useMapLink() {
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const params = useParams<{ pageid?: string }>();
+
+  // Read the link once on load; afterwards the URL follows the app state
+  const [initialLink] = useState<MapLinkState>(() => parseMapLink(search, params.pageid));
+
+  // Replace the current history entry so panning doesn't flood the back button
+  const updateLink = useCallback((state: MapLinkState) => {
+    const target = buildMapLink(state, location.startsWith('/landmark/'));
+    const current = search ? `${location}?${search}` : location;
+    if (target !== current) {
+      navigate(target, { replace: true });
+    }
+  }, [location, search, navigate]);
+
+  return {
+    initialLink,
+    updateLink
+  };
+}
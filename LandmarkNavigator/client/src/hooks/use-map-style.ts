@@ -1,16 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { MapStyle, MAP_STYLES } from '@/components/MapStyleSelector';
 
-export function useMapStyle() {
-  const [selectedStyleId, setSelectedStyleId] = useState<string>('streets');
-  
-  useEffect(() => {
-    // Load saved style preference from localStorage
-    const savedStyle = localStorage.getItem('mapStylePreference');
-    if (savedStyle) {
-      setSelectedStyleId(savedStyle);
-    }
-  }, []);
+export function useMapStyle(linkedStyleId?: string) {
+  // A style from a shared link wins over the saved preference in localStorage
+  const [selectedStyleId, setSelectedStyleId] = useState<string>(
+    () => linkedStyleId || localStorage.getItem('mapStylePreference') || 'streets'
+  );
   
   const setStyle = (style: MapStyle) => {
     setSelectedStyleId(style.id);
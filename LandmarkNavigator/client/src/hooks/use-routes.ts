@@ -0,0 +1,50 @@
+import { useQueries, UseQueryResult } from '@tanstack/react-query';
+import { RouteResult, TravelMode } from '@/types';
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'bike', 'drive'];
+
+const ORIGIN_PRECISION = 4; // Decimal places of the start kept in requests (about 11 m)
+
+/**
+ * Fetch routes for every travel mode between two points
+ * @param origin Start as [lat, lon], or null while it is unknown
+ * @param destination End as [lat, lon], or null when no route is wanted
+ * @returns Query results keyed by travel mode
+ */
+export function useRoutes(
+  origin: [number, number] | null,
+  destination: [number, number] | null
+): Record<TravelMode, UseQueryResult<RouteResult>> {
+  const results = useQueries({
+    queries: TRAVEL_MODES.map((mode) => {
+      const params = origin && destination
+        ? new URLSearchParams({
+            // Rounded so a tracked position only refetches after moving a little
+            fromLat: origin[0].toFixed(ORIGIN_PRECISION),
+            fromLon: origin[1].toFixed(ORIGIN_PRECISION),
+            toLat: destination[0].toString(),
+            toLon: destination[1].toString(),
+            mode
+          })
+        : null;
+
+      return {
+        queryKey: [`/api/route?${params}`],
+        enabled: !!params,
+        // Keep showing the old route while the start moves, but not after the destination changed
+        placeholderData: (previousData: RouteResult | undefined, previousQuery?: { queryKey: readonly unknown[] }) => {
+          const previousParams = new URLSearchParams(String(previousQuery?.queryKey[0]).split('?')[1]);
+          return params && previousParams.get('toLat') === params.get('toLat') && previousParams.get('toLon') === params.get('toLon')
+            ? previousData
+            : undefined;
+        }
+      };
+    })
+  });
+
+  return {
+    walk: results[0],
+    bike: results[1],
+    drive: results[2]
+  } as Record<TravelMode, UseQueryResult<RouteResult>>;
+}
@@ -0,0 +1,185 @@
+import { Landmark } from '@/types';
+import { bookmarkRecordSchema } from '@shared/bookmarks';
+import {
+  BOOKMARKS_SCHEMA_VERSION,
+  BookmarkStore,
+  applyLocalChanges,
+  applySyncResponse,
+  createBookmark,
+  linkSyncAccount,
+  migrateBookmarkStore,
+  pendingSyncRecords,
+  unlinkSyncAccount
+} from './bookmarks';
+
+// The same page ID is a different article in each language edition
+const berlinWall: Landmark = { pageid: 4231, lang: 'en', title: 'Berlin Wall', lat: 52.5163, lon: 13.3777 };
+const sameIdInGerman: Landmark = { pageid: 4231, lang: 'de', title: 'Brandenburger Tor', lat: 52.5163, lon: 13.3777 };
+
+const emptyStore = (code: string | null = null): BookmarkStore => ({
+  version: BOOKMARKS_SCHEMA_VERSION,
+  bookmarks: [],
+  collections: [],
+  sync: { code, since: 0, pending: [] }
+});
+
+describe('applyLocalChanges', () => {
+  it('keeps bookmarks of different languages with the same page ID apart', () => {
+    const store = applyLocalChanges(emptyStore('CODE'), {
+      bookmarks: [createBookmark(berlinWall), createBookmark(sameIdInGerman)]
+    });
+
+    expect(store.bookmarks.map((bookmark) => bookmark.title)).toEqual(['Berlin Wall', 'Brandenburger Tor']);
+    expect(store.sync.pending).toEqual(['bookmark:en:4231', 'bookmark:de:4231']);
+  });
+
+  it('replaces only the bookmark of the same language', () => {
+    const saved = applyLocalChanges(emptyStore(), {
+      bookmarks: [createBookmark(berlinWall), createBookmark(sameIdInGerman)]
+    });
+
+    const store = applyLocalChanges(saved, { bookmarks: [createBookmark(sameIdInGerman, { note: 'Go at night' })] });
+
+    expect(store.bookmarks.map((bookmark) => [bookmark.title, bookmark.note])).toEqual([
+      ['Berlin Wall', ''],
+      ['Brandenburger Tor', 'Go at night']
+    ]);
+  });
+
+  it('keeps a tombstone of a deleted bookmark to sync', () => {
+    const saved = applyLocalChanges(emptyStore('CODE'), { bookmarks: [createBookmark(berlinWall)] });
+
+    const store = applyLocalChanges(saved, { bookmarks: [{ ...saved.bookmarks[0], deleted: true }] });
+
+    expect(store.bookmarks).toEqual([expect.objectContaining({ deleted: true })]);
+  });
+
+  it('forgets a deleted bookmark straight away without sync', () => {
+    const saved = applyLocalChanges(emptyStore(), { bookmarks: [createBookmark(berlinWall), createBookmark(sameIdInGerman)] });
+
+    const store = applyLocalChanges(saved, { bookmarks: [{ ...saved.bookmarks[0], deleted: true }] });
+
+    expect(store.bookmarks.map((bookmark) => bookmark.title)).toEqual(['Brandenburger Tor']);
+  });
+});
+
+describe('pendingSyncRecords', () => {
+  it('sends bookmarks keyed by language and page ID', () => {
+    const store = linkSyncAccount(
+      applyLocalChanges(emptyStore(), { bookmarks: [createBookmark(berlinWall), createBookmark(sameIdInGerman)] }),
+      'CODE'
+    );
+
+    expect(pendingSyncRecords(store).map((record) => record.key)).toEqual(['en:4231', 'de:4231']);
+  });
+});
+
+describe('applySyncResponse', () => {
+  it('merges changes into the bookmark of the matching language', () => {
+    const store = applyLocalChanges(emptyStore('CODE'), {
+      bookmarks: [createBookmark(berlinWall, { updatedAt: 1 }), createBookmark(sameIdInGerman, { updatedAt: 1 })]
+    });
+    const sent = pendingSyncRecords(store);
+
+    const synced = applySyncResponse(store, sent, {
+      records: [{ kind: 'bookmark', key: 'de:4231', data: { ...sameIdInGerman, note: 'Edited elsewhere' }, updatedAt: 2, deleted: false }],
+      serverTime: 100
+    });
+
+    expect(synced.bookmarks.map((bookmark) => [bookmark.lang, bookmark.note])).toEqual([
+      ['en', ''],
+      ['de', 'Edited elsewhere']
+    ]);
+  });
+
+  it('drops tombstones the server has acknowledged', () => {
+    const saved = applyLocalChanges(emptyStore('CODE'), { bookmarks: [createBookmark(berlinWall, { updatedAt: 1 })] });
+    const store = applyLocalChanges(saved, {
+      bookmarks: [{ ...saved.bookmarks[0], deleted: true, updatedAt: 2 }],
+      collections: [{ id: 'trip', name: 'Trip', createdAt: 1, updatedAt: 2, deleted: true }]
+    });
+
+    const synced = applySyncResponse(store, pendingSyncRecords(store), { records: [], serverTime: 100 });
+
+    expect(synced.bookmarks).toEqual([]);
+    expect(synced.collections).toEqual([]);
+    expect(synced.sync.pending).toEqual([]);
+  });
+
+  it('drops tombstones of deletions made on other devices', () => {
+    const store = applyLocalChanges(emptyStore('CODE'), { bookmarks: [createBookmark(berlinWall, { updatedAt: 1 })] });
+    const synced = applySyncResponse(store, pendingSyncRecords(store), { records: [], serverTime: 100 });
+
+    const deleted = applySyncResponse(synced, [], {
+      records: [{ kind: 'bookmark', key: 'en:4231', data: {}, updatedAt: 5, deleted: true }],
+      serverTime: 200
+    });
+
+    expect(deleted.bookmarks).toEqual([]);
+  });
+
+  it('keeps a tombstone deleted again while its earlier version was being sent', () => {
+    const store = applyLocalChanges(emptyStore('CODE'), { bookmarks: [createBookmark(berlinWall, { updatedAt: 1 })] });
+    const sent = pendingSyncRecords(store);
+    const deletedMeanwhile = applyLocalChanges(store, { bookmarks: [{ ...store.bookmarks[0], deleted: true, updatedAt: 2 }] });
+
+    const synced = applySyncResponse(deletedMeanwhile, sent, { records: [], serverTime: 100 });
+
+    expect(synced.bookmarks).toEqual([expect.objectContaining({ deleted: true })]);
+    expect(synced.sync.pending).toEqual(['bookmark:en:4231']);
+  });
+});
+
+describe('unlinkSyncAccount', () => {
+  it('stops syncing and drops tombstones, keeping the bookmarks', () => {
+    const saved = applyLocalChanges(emptyStore('CODE'), { bookmarks: [createBookmark(berlinWall), createBookmark(sameIdInGerman)] });
+    const store = applyLocalChanges(saved, { bookmarks: [{ ...saved.bookmarks[0], deleted: true }] });
+
+    const unlinked = unlinkSyncAccount(store);
+
+    expect(unlinked.bookmarks.map((bookmark) => bookmark.title)).toEqual(['Brandenburger Tor']);
+    expect(unlinked.sync).toEqual({ code: null, since: 0, pending: [] });
+  });
+});
+
+describe('migrateBookmarkStore', () => {
+  it('queues every bookmark of a synced version 3 store under its new key', () => {
+    const store = migrateBookmarkStore({
+      version: 3,
+      bookmarks: [createBookmark(berlinWall), createBookmark({ ...sameIdInGerman, pageid: 17 })],
+      collections: [],
+      sync: { code: 'CODE', since: 50, pending: ['bookmark:4231', 'collection:abc'] }
+    });
+
+    expect(store.version).toBe(BOOKMARKS_SCHEMA_VERSION);
+    expect(store.sync).toEqual({
+      code: 'CODE',
+      since: 50,
+      pending: ['collection:abc', 'bookmark:en:4231', 'bookmark:de:17']
+    });
+  });
+
+  it('leaves the queue of an unsynced store empty', () => {
+    const store = migrateBookmarkStore({
+      version: 3,
+      bookmarks: [createBookmark(berlinWall)],
+      collections: [],
+      sync: { code: null, since: 0, pending: [] }
+    });
+
+    expect(store.bookmarks).toHaveLength(1);
+    expect(store.sync.pending).toEqual([]);
+  });
+});
+
+describe('bookmarkRecordSchema', () => {
+  it('upgrades bookmark records keyed by page ID alone', () => {
+    const record = (key: string, data: Record<string, unknown>) =>
+      bookmarkRecordSchema.parse({ kind: 'bookmark', key, data, updatedAt: 1 }).key;
+
+    expect(record('4231', { lang: 'de' })).toBe('de:4231');
+    expect(record('4231', {})).toBe('en:4231');
+    expect(record('de:4231', { lang: 'de' })).toBe('de:4231');
+    expect(bookmarkRecordSchema.parse({ kind: 'collection', key: '123', data: {}, updatedAt: 1 }).key).toBe('123');
+  });
+});
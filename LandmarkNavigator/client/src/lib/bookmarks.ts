@@ -0,0 +1,321 @@
+import { Bookmark, BookmarkCollection, Landmark } from '@/types';
+import { BookmarkRecord, BookmarkRecordKind, BookmarkSyncResponse, bookmarkKey, isNewerRecord, parseBookmarkKey } from '@shared/bookmarks';
+
+export const BOOKMARKS_STORAGE_KEY = 'landmarkBookmarkStore';
+export const BOOKMARKS_SCHEMA_VERSION = 4;
+const LEGACY_BOOKMARKS_STORAGE_KEY = 'landmarkBookmarks'; // Version 1: a plain Landmark[]
+
+export interface BookmarkSyncState {
+  code: string | null; // Sync code of the linked account, null when sync is off
+  since: number; // Server time of the last sync; later changes are fetched next time
+  pending: string[]; // Keys of records changed since they were last sent, e.g. "bookmark:en:123"
+}
+
+export interface BookmarkStore {
+  version: number;
+  bookmarks: Bookmark[]; // Including tombstones of deleted bookmarks not yet synced
+  collections: BookmarkCollection[]; // Including tombstones of deleted collections not yet synced
+  sync: BookmarkSyncState;
+}
+
+const EMPTY_SYNC_STATE: BookmarkSyncState = { code: null, since: 0, pending: [] };
+
+/**
+ * Create a bookmark for a landmark
+ * @param landmark Landmark to save
+ * @param changes Initial note, tags, collections or visited flag
+ * @returns A new bookmark
+ */
+export function createBookmark(landmark: Landmark, changes: Partial<Bookmark> = {}): Bookmark {
+  const now = Date.now();
+  // Distances are relative to wherever the user was, so they aren't worth keeping
+  const { distance, isBookmarked, ...saved } = landmark;
+  return {
+    ...saved,
+    note: '',
+    tags: [],
+    visited: false,
+    collectionIds: [],
+    savedAt: now,
+    updatedAt: now,
+    ...changes,
+  };
+}
+
+/**
+ * Create an empty collection
+ * @param name Name shown to the user
+ * @returns A new collection with a unique ID
+ */
+export function createCollection(name: string): BookmarkCollection {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Clean up user-entered tags: trimmed, lowercase, without duplicates or empty tags
+ * @param tags Tags as entered
+ * @returns Normalized tags in their original order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Bring stored bookmark data of any schema version up to the current version
+ * @param data Parsed data from localStorage
+ * @returns Data in the current schema
+ */
+export function migrateBookmarkStore(data: unknown): BookmarkStore {
+  // Version 1 stored the bookmarked landmarks as a bare array
+  if (Array.isArray(data)) {
+    return {
+      version: BOOKMARKS_SCHEMA_VERSION,
+      bookmarks: data
+        .filter((landmark): landmark is Landmark => typeof landmark?.pageid === 'number')
+        .map((landmark) => createBookmark(landmark)),
+      collections: [],
+      sync: EMPTY_SYNC_STATE,
+    };
+  }
+
+  // Version 2 added collections, notes and tags; version 3 added sync
+  const store = data as Partial<BookmarkStore> | null;
+  if (store && (store.version === 2 || store.version === 3)) {
+    const migrated: BookmarkStore = {
+      version: BOOKMARKS_SCHEMA_VERSION,
+      bookmarks: store.bookmarks ?? [],
+      collections: store.collections ?? [],
+      sync: store.sync ?? EMPTY_SYNC_STATE,
+    };
+    // Version 4 keys bookmarks by language and page ID, so send them all again under their new keys
+    return migrated.sync.code
+      ? {
+          ...migrated,
+          sync: {
+            ...migrated.sync,
+            pending: [
+              ...migrated.sync.pending.filter((key) => key.startsWith('collection:')),
+              ...migrated.bookmarks.map((bookmark) => recordKey('bookmark', bookmarkKey(bookmark))),
+            ],
+          },
+        }
+      : withoutTombstones(migrated);
+  }
+
+  if (store?.version === BOOKMARKS_SCHEMA_VERSION) {
+    return {
+      version: BOOKMARKS_SCHEMA_VERSION,
+      bookmarks: store.bookmarks ?? [],
+      collections: store.collections ?? [],
+      sync: store.sync ?? EMPTY_SYNC_STATE,
+    };
+  }
+
+  console.warn('Unknown bookmark data version, starting with no bookmarks:', store?.version);
+  return { version: BOOKMARKS_SCHEMA_VERSION, bookmarks: [], collections: [], sync: EMPTY_SYNC_STATE };
+}
+
+/**
+ * Load bookmarks from localStorage, migrating and replacing data saved in older formats
+ * @returns The stored bookmarks and collections
+ */
+export function loadBookmarkStore(): BookmarkStore {
+  try {
+    const saved = localStorage.getItem(BOOKMARKS_STORAGE_KEY);
+    if (saved) {
+      return migrateBookmarkStore(JSON.parse(saved));
+    }
+
+    const legacy = localStorage.getItem(LEGACY_BOOKMARKS_STORAGE_KEY);
+    if (legacy) {
+      const store = migrateBookmarkStore(JSON.parse(legacy));
+      // Keep the old data around if the migrated copy couldn't be written
+      if (saveBookmarkStore(store)) {
+        localStorage.removeItem(LEGACY_BOOKMARKS_STORAGE_KEY);
+      }
+      return store;
+    }
+  } catch (error) {
+    console.error('Failed to load bookmarks from localStorage:', error);
+  }
+  return { version: BOOKMARKS_SCHEMA_VERSION, bookmarks: [], collections: [], sync: EMPTY_SYNC_STATE };
+}
+
+/**
+ * Save bookmarks to localStorage
+ * @param store Bookmarks and collections to save
+ * @returns Whether the data was saved
+ */
+export function saveBookmarkStore(store: BookmarkStore): boolean {
+  try {
+    localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(store));
+    return true;
+  } catch (error) {
+    console.error('Failed to save bookmarks to localStorage:', error);
+    return false;
+  }
+}
+
+/**
+ * Key identifying a bookmark or collection in the sync queue
+ */
+function recordKey(kind: BookmarkRecordKind, key: string): string {
+  return `${kind}:${key}`;
+}
+
+/**
+ * Store changed bookmarks and collections, replacing earlier versions, and queue them for sync
+ * @param store Current store
+ * @param changes New versions of the bookmarks and collections that changed
+ * @returns Updated store
+ */
+export function applyLocalChanges(
+  store: BookmarkStore,
+  changes: { bookmarks?: Bookmark[]; collections?: BookmarkCollection[] }
+): BookmarkStore {
+  const bookmarks = changes.bookmarks ?? [];
+  const collections = changes.collections ?? [];
+  const changedKeys = [
+    ...bookmarks.map((bookmark) => recordKey('bookmark', bookmarkKey(bookmark))),
+    ...collections.map((collection) => recordKey('collection', collection.id)),
+  ];
+
+  const updated = {
+    ...store,
+    bookmarks: replaceById(store.bookmarks, bookmarks, bookmarkKey),
+    collections: replaceById(store.collections, collections, (collection) => collection.id),
+  };
+  // Without a linked account there is nothing to send, and no other device to tell about
+  // deletions; enabling sync sends everything
+  return store.sync.code
+    ? { ...updated, sync: { ...store.sync, pending: Array.from(new Set([...store.sync.pending, ...changedKeys])) } }
+    : withoutTombstones(updated);
+}
+
+/**
+ * Link the store to a sync account, queueing every bookmark and collection to be sent
+ * @param store Current store
+ * @param code Sync code of the account
+ * @returns Updated store
+ */
+export function linkSyncAccount(store: BookmarkStore, code: string): BookmarkStore {
+  return {
+    ...store,
+    sync: {
+      code,
+      since: 0,
+      pending: [
+        ...store.bookmarks.map((bookmark) => recordKey('bookmark', bookmarkKey(bookmark))),
+        ...store.collections.map((collection) => recordKey('collection', collection.id)),
+      ],
+    },
+  };
+}
+
+/**
+ * Stop syncing. Bookmarks stay on this device, and deletions no longer need to reach other devices.
+ * @param store Current store
+ * @returns Updated store
+ */
+export function unlinkSyncAccount(store: BookmarkStore): BookmarkStore {
+  return withoutTombstones({ ...store, sync: EMPTY_SYNC_STATE });
+}
+
+/**
+ * Sync records for the queued changes
+ * @param store Current store
+ * @returns Records to send to the server
+ */
+export function pendingSyncRecords(store: BookmarkStore): BookmarkRecord[] {
+  const pending = new Set(store.sync.pending);
+  return [
+    ...store.bookmarks
+      .filter((bookmark) => pending.has(recordKey('bookmark', bookmarkKey(bookmark))))
+      .map((bookmark): BookmarkRecord => ({
+        kind: 'bookmark',
+        key: bookmarkKey(bookmark),
+        data: { ...bookmark },
+        updatedAt: bookmark.updatedAt,
+        deleted: !!bookmark.deleted,
+      })),
+    ...store.collections
+      .filter((collection) => pending.has(recordKey('collection', collection.id)))
+      .map((collection): BookmarkRecord => ({
+        kind: 'collection',
+        key: collection.id,
+        data: { ...collection },
+        updatedAt: collection.updatedAt,
+        deleted: !!collection.deleted,
+      })),
+  ];
+}
+
+/**
+ * Apply a sync response: merge the server's changes, last write winning, and drop sent
+ * changes from the queue unless they were changed again while the request was in flight.
+ * Tombstones are dropped once the server has them.
+ * @param store Current store
+ * @param sent Records that were sent
+ * @param response Server response
+ * @returns Updated store
+ */
+export function applySyncResponse(
+  store: BookmarkStore,
+  sent: BookmarkRecord[],
+  response: BookmarkSyncResponse
+): BookmarkStore {
+  const bookmarks = new Map(store.bookmarks.map((bookmark) => [bookmarkKey(bookmark), bookmark]));
+  const collections = new Map(store.collections.map((collection) => [collection.id, collection]));
+
+  response.records.forEach((record) => {
+    const local = record.kind === 'bookmark' ? bookmarks.get(record.key) : collections.get(record.key);
+    if (!isNewerRecord(record, local && { updatedAt: local.updatedAt, deleted: !!local.deleted })) {
+      return;
+    }
+    if (record.kind === 'bookmark') {
+      bookmarks.set(record.key, { ...(record.data as unknown as Bookmark), ...parseBookmarkKey(record.key), updatedAt: record.updatedAt, deleted: record.deleted });
+    } else {
+      collections.set(record.key, { ...(record.data as unknown as BookmarkCollection), id: record.key, updatedAt: record.updatedAt, deleted: record.deleted });
+    }
+  });
+
+  const sentVersions = new Map(sent.map((record) => [recordKey(record.kind, record.key), record.updatedAt]));
+  const stillPending = store.sync.pending.filter((key) => {
+    const [kind, id] = key.split(/:(.*)/) as [BookmarkRecordKind, string];
+    const local = kind === 'bookmark' ? bookmarks.get(id) : collections.get(id);
+    return !sentVersions.has(key) || (local !== undefined && local.updatedAt > sentVersions.get(key)!);
+  });
+
+  const unsent = new Set(stillPending);
+  return {
+    ...store,
+    bookmarks: Array.from(bookmarks.values()).filter(
+      (bookmark) => !bookmark.deleted || unsent.has(recordKey('bookmark', bookmarkKey(bookmark)))
+    ),
+    collections: Array.from(collections.values()).filter(
+      (collection) => !collection.deleted || unsent.has(recordKey('collection', collection.id))
+    ),
+    sync: { ...store.sync, since: response.serverTime, pending: stillPending },
+  };
+}
+
+function withoutTombstones(store: BookmarkStore): BookmarkStore {
+  return {
+    ...store,
+    bookmarks: store.bookmarks.filter((bookmark) => !bookmark.deleted),
+    collections: store.collections.filter((collection) => !collection.deleted),
+  };
+}
+
+function replaceById<T, K>(items: T[], replacements: T[], id: (item: T) => K): T[] {
+  const byId = new Map(replacements.map((item) => [id(item), item]));
+  const updated = items.map((item) => byId.get(id(item)) ?? item);
+  const existing = new Set(items.map(id));
+  return [...updated, ...replacements.filter((item) => !existing.has(id(item)))];
+}
@@ -52,4 +52,16 @@ export function formatDistance(distance: number): string {
     return `${Math.round(distance * 1000)} m`;
   }
   return `${distance.toFixed(1)} km`;
-}
\ No newline at end of file
+}
+/**
+ * Format a duration to a user-friendly string
+ * @param seconds Duration in seconds
+ * @returns Formatted duration string, e.g. "1 h 05 min"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
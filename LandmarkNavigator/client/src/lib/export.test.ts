@@ -0,0 +1,201 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Bookmark } from '@/types';
+import { bookmarkUrl, toGeoJson, toGpx, toKml } from './export';
+
+const savedAt = Date.UTC(2024, 4, 1, 9, 30);
+
+const bookmark = (details: Partial<Bookmark> & Pick<Bookmark, 'pageid' | 'title' | 'lat' | 'lon'>): Bookmark => ({
+  note: '',
+  tags: [],
+  visited: false,
+  collectionIds: [],
+  savedAt,
+  updatedAt: savedAt,
+  ...details
+});
+
+const eiffelTower = bookmark({
+  pageid: 1359783,
+  lang: 'fr',
+  title: 'Tour Eiffel',
+  lat: 48.8584,
+  lon: 2.2945,
+  description: 'Tour de fer puddlé de 330 m <haute> & célèbre',
+  note: 'Book "summit" tickets <early> & bring a jacket',
+  tags: ['paris', 'views'],
+  visited: true,
+  category: 'monument'
+});
+
+const deuxMagots = bookmark({
+  pageid: -4242,
+  title: "Les Deux Magots & Café de l'Époque",
+  lat: 48.854,
+  lon: 2.3331,
+  source: 'osm',
+  url: 'https://www.openstreetmap.org/node/123?layers=N&zoom=18'
+});
+
+const stPauls = bookmark({ pageid: 28727, title: "St Paul's Cathedral", lat: 51.5138, lon: -0.0984 });
+
+const bookmarks = [eiffelTower, deuxMagots, stPauls];
+
+/**
+ * Parse an XML export, failing on any parse error
+ */
+function parseXml(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+}
+
+const childText = (element: Element, tagName: string) => element.getElementsByTagName(tagName)[0]?.textContent ?? null;
+
+describe('bookmarkUrl', () => {
+  it('links Wikipedia bookmarks to the article in their language', () => {
+    expect(bookmarkUrl(eiffelTower)).toBe('https://fr.wikipedia.org/wiki/Tour_Eiffel');
+    expect(bookmarkUrl(stPauls)).toBe("https://en.wikipedia.org/wiki/St_Paul's_Cathedral");
+  });
+
+  it('links bookmarks from other sources to their source page', () => {
+    expect(bookmarkUrl(deuxMagots)).toBe(deuxMagots.url);
+    expect(bookmarkUrl({ ...deuxMagots, url: undefined })).toBeUndefined();
+  });
+});
+
+describe('toGpx', () => {
+  it('writes a GPX 1.1 document named after the exported places', () => {
+    const gpx = parseXml(toGpx(bookmarks, 'Paris & London')).documentElement;
+
+    expect(gpx.tagName).toBe('gpx');
+    expect(gpx.namespaceURI).toBe('http://www.topografix.com/GPX/1/1');
+    expect(gpx.getAttribute('version')).toBe('1.1');
+    expect(childText(gpx.getElementsByTagName('metadata')[0], 'name')).toBe('Paris & London');
+  });
+
+  it('writes a waypoint with the details of each bookmark', () => {
+    const [waypoint] = Array.from(parseXml(toGpx(bookmarks, 'Saved places')).getElementsByTagName('wpt'));
+
+    expect(Number(waypoint.getAttribute('lat'))).toBe(48.8584);
+    expect(Number(waypoint.getAttribute('lon'))).toBe(2.2945);
+    expect(childText(waypoint, 'name')).toBe('Tour Eiffel');
+    expect(childText(waypoint, 'cmt')).toBe(eiffelTower.note);
+    expect(childText(waypoint, 'desc')).toBe(eiffelTower.description);
+    expect(childText(waypoint, 'type')).toBe('monument');
+    expect(childText(waypoint, 'time')).toBe('2024-05-01T09:30:00.000Z');
+    expect(waypoint.getElementsByTagName('link')[0].getAttribute('href')).toBe('https://fr.wikipedia.org/wiki/Tour_Eiffel');
+  });
+
+  it('leaves out the details a bookmark does not have', () => {
+    const waypoint = parseXml(toGpx([deuxMagots], 'Saved places')).getElementsByTagName('wpt')[0];
+
+    expect(childText(waypoint, 'name')).toBe(deuxMagots.title);
+    expect(waypoint.getElementsByTagName('cmt')).toHaveLength(0);
+    expect(waypoint.getElementsByTagName('desc')).toHaveLength(0);
+    expect(waypoint.getElementsByTagName('type')).toHaveLength(0);
+    // Escaped inside the attribute too
+    expect(waypoint.getElementsByTagName('link')[0].getAttribute('href')).toBe(deuxMagots.url);
+  });
+
+  it('escapes markup in text', () => {
+    const gpx = toGpx([eiffelTower], '<Trip>');
+
+    expect(gpx).not.toContain('<early>');
+    expect(gpx).toContain('&lt;early&gt; &amp; bring');
+    expect(gpx).toContain('<name>&lt;Trip&gt;</name>');
+  });
+
+  it('writes a valid document without bookmarks', () => {
+    expect(parseXml(toGpx([], 'Saved places')).getElementsByTagName('wpt')).toHaveLength(0);
+  });
+});
+
+describe('toKml', () => {
+  const placemarks = (kml: string) => Array.from(parseXml(kml).getElementsByTagName('Placemark'));
+  const extendedData = (placemark: Element) =>
+    Object.fromEntries(
+      Array.from(placemark.getElementsByTagName('Data')).map((data) => [data.getAttribute('name'), childText(data, 'value')])
+    );
+
+  it('writes a KML document named after the exported places', () => {
+    const kml = parseXml(toKml(bookmarks, 'Paris & London')).documentElement;
+
+    expect(kml.namespaceURI).toBe('http://www.opengis.net/kml/2.2');
+    expect(childText(kml.getElementsByTagName('Document')[0], 'name')).toBe('Paris & London');
+    expect(placemarks(toKml(bookmarks, 'Saved places'))).toHaveLength(3);
+  });
+
+  it('writes a placemark with the details of each bookmark, longitude first', () => {
+    const [placemark] = placemarks(toKml(bookmarks, 'Saved places'));
+
+    expect(childText(placemark, 'name')).toBe('Tour Eiffel');
+    expect(childText(placemark, 'description')).toBe(eiffelTower.description);
+    expect(childText(placemark, 'coordinates')).toBe('2.2945,48.8584');
+    expect(extendedData(placemark)).toEqual({
+      note: eiffelTower.note,
+      tags: 'paris, views',
+      visited: 'true',
+      url: 'https://fr.wikipedia.org/wiki/Tour_Eiffel'
+    });
+  });
+
+  it('leaves out the details a bookmark does not have', () => {
+    const [, placemark] = placemarks(toKml(bookmarks, 'Saved places'));
+
+    expect(childText(placemark, 'name')).toBe(deuxMagots.title);
+    expect(placemark.getElementsByTagName('description')).toHaveLength(0);
+    expect(childText(placemark, 'coordinates')).toBe('2.3331,48.854');
+    expect(extendedData(placemark)).toEqual({ visited: 'false', url: deuxMagots.url });
+  });
+
+  it('escapes markup in text', () => {
+    const kml = toKml([eiffelTower], 'Saved places');
+
+    expect(kml).not.toContain('<haute>');
+    expect(kml).toContain('&lt;haute&gt; &amp; célèbre');
+  });
+});
+
+describe('toGeoJson', () => {
+  it('writes a FeatureCollection named after the exported places', () => {
+    const geoJson = JSON.parse(toGeoJson(bookmarks, 'Paris & London'));
+
+    expect(geoJson.type).toBe('FeatureCollection');
+    expect(geoJson.name).toBe('Paris & London');
+    expect(geoJson.features).toHaveLength(3);
+  });
+
+  it('writes a point feature with the details of each bookmark, longitude first', () => {
+    const [feature] = JSON.parse(toGeoJson(bookmarks, 'Saved places')).features;
+
+    expect(feature).toEqual({
+      type: 'Feature',
+      id: 1359783,
+      geometry: { type: 'Point', coordinates: [2.2945, 48.8584] },
+      properties: {
+        title: 'Tour Eiffel',
+        description: eiffelTower.description,
+        note: eiffelTower.note,
+        tags: ['paris', 'views'],
+        visited: true,
+        category: 'monument',
+        url: 'https://fr.wikipedia.org/wiki/Tour_Eiffel',
+        savedAt: '2024-05-01T09:30:00.000Z'
+      }
+    });
+  });
+
+  it('writes null for the details a bookmark does not have', () => {
+    const [, feature] = JSON.parse(toGeoJson(bookmarks, 'Saved places')).features;
+
+    expect(feature.properties).toMatchObject({
+      title: deuxMagots.title,
+      description: null,
+      note: '',
+      category: null,
+      url: deuxMagots.url
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Bookmark } from '@/types';
+import { DEFAULT_LANGUAGE, wikipediaBaseUrl } from '@shared/languages';
+import { normalizeText } from './search';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  name: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'gpx', name: 'GPX (GPS apps)', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { id: 'kml', name: 'KML (Google Earth)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { id: 'geojson', name: 'GeoJSON (GIS tools)', extension: 'geojson', mimeType: 'application/geo+json' }
+];
+
+const CREATOR = 'Landmark Explorer';
+
+/**
+ * Link to a bookmark's page: its Wikipedia article, or the source page for other sources
+ * @param bookmark Bookmark to link to
+ * @returns The page URL, if there is one
+ */
+export function bookmarkUrl(bookmark: Bookmark): string | undefined {
+  if (bookmark.source && bookmark.source !== 'wikipedia') {
+    return bookmark.url;
+  }
+  const title = bookmark.title.replace(/ /g, '_');
+  return `${wikipediaBaseUrl(bookmark.lang || DEFAULT_LANGUAGE)}/wiki/${encodeURIComponent(title)}`;
+}
+
+/**
+ * Serialize bookmarks as GPX 1.1 waypoints
+ * @param bookmarks Bookmarks to export
+ * @param name Name of the file's contents, e.g. the collection name
+ * @returns GPX document
+ */
+export function toGpx(bookmarks: Bookmark[], name: string): string {
+  const waypoints = bookmarks.map((bookmark) => {
+    const url = bookmarkUrl(bookmark);
+    return [
+      `  <wpt lat="${bookmark.lat}" lon="${bookmark.lon}">`,
+      `    <time>${new Date(bookmark.savedAt).toISOString()}</time>`,
+      `    <name>${escapeXml(bookmark.title)}</name>`,
+      bookmark.note && `    <cmt>${escapeXml(bookmark.note)}</cmt>`,
+      bookmark.description && `    <desc>${escapeXml(bookmark.description)}</desc>`,
+      url && `    <link href="${escapeXml(url)}"><text>${escapeXml(bookmark.title)}</text></link>`,
+      bookmark.category && `    <type>${escapeXml(bookmark.category)}</type>`,
+      '  </wpt>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serialize bookmarks as KML placemarks; the note, tags, visited flag and URL go in ExtendedData
+ * @param bookmarks Bookmarks to export
+ * @param name Document name, e.g. the collection name
+ * @returns KML document
+ */
+export function toKml(bookmarks: Bookmark[], name: string): string {
+  const placemarks = bookmarks.map((bookmark) => {
+    const data: [string, string | undefined][] = [
+      ['note', bookmark.note || undefined],
+      ['tags', bookmark.tags.join(', ') || undefined],
+      ['visited', String(bookmark.visited)],
+      ['url', bookmarkUrl(bookmark)]
+    ];
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(bookmark.title)}</name>`,
+      bookmark.description && `      <description>${escapeXml(bookmark.description)}</description>`,
+      '      <ExtendedData>',
+      ...data
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(value!)}</value></Data>`),
+      '      </ExtendedData>',
+      // KML puts longitude first
+      `      <Point><coordinates>${bookmark.lon},${bookmark.lat}</coordinates></Point>`,
+      '    </Placemark>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serialize bookmarks as a GeoJSON FeatureCollection of points
+ * @param bookmarks Bookmarks to export
+ * @param name Collection name, stored as a foreign member
+ * @returns GeoJSON document
+ */
+export function toGeoJson(bookmarks: Bookmark[], name: string): string {
+  const featureCollection = {
+    type: 'FeatureCollection',
+    name,
+    features: bookmarks.map((bookmark) => ({
+      type: 'Feature',
+      id: bookmark.pageid,
+      geometry: { type: 'Point', coordinates: [bookmark.lon, bookmark.lat] },
+      properties: {
+        title: bookmark.title,
+        description: bookmark.description ?? null,
+        note: bookmark.note,
+        tags: bookmark.tags,
+        visited: bookmark.visited,
+        category: bookmark.category ?? null,
+        url: bookmarkUrl(bookmark) ?? null,
+        savedAt: new Date(bookmark.savedAt).toISOString()
+      }
+    }))
+  };
+  return JSON.stringify(featureCollection, null, 2);
+}
+
+/**
+ * Serialize bookmarks in an export format and save the result as a file
+ * @param bookmarks Bookmarks to export
+ * @param format Export format
+ * @param name Name of the exported places, also used for the file name
+ */
+export function downloadBookmarks(bookmarks: Bookmark[], format: ExportFormat, name: string): void {
+  const info = EXPORT_FORMATS.find((f) => f.id === format)!;
+  const content = format === 'gpx'
+    ? toGpx(bookmarks, name)
+    : format === 'kml'
+      ? toKml(bookmarks, name)
+      : toGeoJson(bookmarks, name);
+
+  const url = URL.createObjectURL(new Blob([content], { type: info.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName(name)}.${info.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function fileName(name: string): string {
+  return normalizeText(name)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'saved-places';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
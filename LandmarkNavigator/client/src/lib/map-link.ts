@@ -0,0 +1,114 @@
+import { LANDMARK_CATEGORY_IDS, LandmarkCategory } from '@shared/categories';
+
+const COORDINATE_PRECISION = 5; // Decimal places kept in links (about 1 m)
+
+// Map state that can be shared through the URL
+export interface MapLinkState {
+  lat?: number;
+  lon?: number;
+  zoom?: number;
+  style?: string;
+  lang?: string;
+  query?: string;
+  categories?: LandmarkCategory[];
+  landmark?: number; // Page ID of the selected landmark
+}
+
+/**
+ * Read map state from a URL query string
+ * @param search Query string, with or without the leading "?"
+ * @param pageid Page ID from a /landmark/:pageid path, which takes precedence over the query
+ * @returns The valid parts of the state; anything missing or malformed is left out
+ */
+export function parseMapLink(search: string, pageid?: string): MapLinkState {
+  const params = new URLSearchParams(search);
+  const state: MapLinkState = {};
+
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lon = parseFloat(params.get('lon') ?? '');
+  if (Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+    state.lat = lat;
+    state.lon = lon;
+  }
+
+  const zoom = parseInt(params.get('z') ?? '', 10);
+  if (Number.isInteger(zoom) && zoom >= 0 && zoom <= 19) {
+    state.zoom = zoom;
+  }
+
+  const style = params.get('style');
+  if (style) {
+    state.style = style;
+  }
+
+  const lang = params.get('lang');
+  if (lang) {
+    state.lang = lang;
+  }
+
+  const query = params.get('q');
+  if (query) {
+    state.query = query;
+  }
+
+  const categories = (params.get('categories') ?? '')
+    .split(',')
+    .filter((id): id is LandmarkCategory => (LANDMARK_CATEGORY_IDS as string[]).includes(id));
+  if (categories.length > 0) {
+    state.categories = categories;
+  }
+
+  const landmark = parseInt(pageid ?? params.get('landmark') ?? '', 10);
+  if (Number.isInteger(landmark) && landmark !== 0) {
+    state.landmark = landmark;
+  }
+
+  return state;
+}
+
+/**
+ * Build a link for the given map state
+ * @param state Map state to encode
+ * @param landmarkPath Put the selected landmark in a /landmark/:pageid path instead of the query
+ * @returns Path and query string
+ */
+export function buildMapLink(state: MapLinkState, landmarkPath: boolean = false): string {
+  const params = new URLSearchParams();
+
+  if (state.lat !== undefined && state.lon !== undefined) {
+    params.set('lat', state.lat.toFixed(COORDINATE_PRECISION));
+    params.set('lon', state.lon.toFixed(COORDINATE_PRECISION));
+  }
+  if (state.zoom !== undefined) {
+    params.set('z', Math.round(state.zoom).toString());
+  }
+  if (state.style) {
+    params.set('style', state.style);
+  }
+  if (state.lang) {
+    params.set('lang', state.lang);
+  }
+  if (state.query) {
+    params.set('q', state.query);
+  }
+  if (state.categories && state.categories.length > 0) {
+    params.set('categories', state.categories.join(','));
+  }
+  if (state.landmark !== undefined && !landmarkPath) {
+    params.set('landmark', state.landmark.toString());
+  }
+
+  const path = state.landmark !== undefined && landmarkPath ? `/landmark/${state.landmark}` : '/';
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Build the canonical link for a landmark, which opens its detail view
+ * @param pageid Page ID of the landmark
+ * @param lang Wikipedia language edition the page ID belongs to
+ * @returns Path and query string
+ */
+export function buildLandmarkLink(pageid: number, lang?: string): string {
+  return buildMapLink({ landmark: pageid, lang }, true);
+}
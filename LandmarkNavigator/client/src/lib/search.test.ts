@@ -0,0 +1,151 @@
+import { Landmark } from '@/types';
+import { buildSearchIndex, excerptAroundMatch, highlightMatches, normalizeText, searchLandmarks, tokenize } from './search';
+
+let nextPageId = 1;
+const landmark = (title: string, details: Partial<Landmark> = {}): Landmark => ({
+  pageid: nextPageId++,
+  title,
+  lat: 48.86,
+  lon: 2.35,
+  ...details
+});
+
+const search = (landmarks: Landmark[], query: string) =>
+  searchLandmarks(buildSearchIndex(landmarks), query).map((result) => [result.landmark.title, result.score]);
+
+describe('tokenize', () => {
+  it('lowercases words and strips their accents', () => {
+    expect(tokenize("Musée d'Orsay")).toEqual(['musee', 'd', 'orsay']);
+    expect(tokenize('São Paulo, Kraków')).toEqual(['sao', 'paulo', 'krakow']);
+    expect(tokenize('Ακρόπολη')).toEqual(['ακροπολη']);
+  });
+
+  it('keeps letters that have no accent to strip', () => {
+    expect(tokenize('Ærøskøbing Straße')).toEqual(['ærøskøbing', 'straße']);
+  });
+
+  it('treats accented letters written as one character or as a letter and a combining mark alike', () => {
+    expect(tokenize('Caf\u00e9')).toEqual(['cafe']);
+    expect(tokenize('Cafe\u0301')).toEqual(['cafe']);
+  });
+
+  it('splits on punctuation and keeps numbers', () => {
+    expect(tokenize('Sagrada Família (1882–2026)')).toEqual(['sagrada', 'familia', '1882', '2026']);
+    expect(tokenize('Saint-Germain-des-Prés')).toEqual(['saint', 'germain', 'des', 'pres']);
+  });
+
+  it('returns no tokens for text without words', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize(' – , ')).toEqual([]);
+  });
+});
+
+describe('searchLandmarks', () => {
+  it('matches regardless of accents in the query or the text', () => {
+    const landmarks = [landmark("Musée d'Orsay"), landmark('Cafe de Flore')];
+
+    expect(search(landmarks, 'musee').map(([title]) => title)).toEqual(["Musée d'Orsay"]);
+    expect(search(landmarks, 'Café').map(([title]) => title)).toEqual(['Cafe de Flore']);
+  });
+
+  it('scores an exact word above a word it is a prefix of', () => {
+    const landmarks = [landmark('Montmartre'), landmark('Mont Valérien')];
+
+    // Exact title word (3) vs half of it for a prefix (1.5), both starting the title (+2)
+    expect(search(landmarks, 'mont')).toEqual([['Mont Valérien', 5], ['Montmartre', 3.5]]);
+  });
+
+  it('weighs titles above facts above descriptions', () => {
+    const landmarks = [
+      landmark('Panthéon', { description: 'Mausoleum designed by Soufflot' }),
+      landmark('Église Sainte-Geneviève', { facts: [{ type: 'person', label: 'Architect', value: 'Jacques-Germain Soufflot' }] }),
+      landmark('Soufflot Street')
+    ];
+
+    expect(search(landmarks, 'soufflot')).toEqual([
+      ['Soufflot Street', 5],
+      ['Église Sainte-Geneviève', 2],
+      ['Panthéon', 1]
+    ]);
+  });
+
+  it('requires every word of the query to match', () => {
+    const landmarks = [
+      landmark('Eiffel Tower'),
+      landmark('Tower of London'),
+      landmark('Gustave Eiffel statue'),
+      landmark('Tour Eiffel', { description: 'Wrought-iron lattice tower' })
+    ];
+
+    expect(search(landmarks, 'eiffel tower').map(([title]) => title)).toEqual(['Eiffel Tower', 'Tour Eiffel']);
+    expect(search(landmarks, 'eiffel tower london')).toEqual([]);
+  });
+
+  it('adds up the best match of each word, in any order', () => {
+    const landmarks = [landmark('Notre-Dame de Paris'), landmark('Basilica of Notre-Dame')];
+
+    expect(search(landmarks, 'dame notre')).toEqual([['Notre-Dame de Paris', 6], ['Basilica of Notre-Dame', 6]]);
+    // Only titles starting with the query get the bonus
+    expect(search(landmarks, 'notre dame')).toEqual([['Notre-Dame de Paris', 8], ['Basilica of Notre-Dame', 6]]);
+  });
+
+  it('returns every landmark unscored for an empty query', () => {
+    const landmarks = [landmark('Louvre'), landmark('Sainte-Chapelle')];
+
+    expect(search(landmarks, '  ')).toEqual([['Louvre', 0], ['Sainte-Chapelle', 0]]);
+  });
+});
+
+describe('highlightMatches', () => {
+  const highlighted = (text: string, query: string) =>
+    highlightMatches(text, query).map(({ text, match }) => (match ? `[${text}]` : text)).join('');
+
+  it('marks whole and prefix matches', () => {
+    expect(highlightMatches('Montmartre Cemetery', 'mont')).toEqual([
+      { text: 'Mont', match: true },
+      { text: 'martre Cemetery', match: false }
+    ]);
+    expect(highlighted('Saint-Germain-des-Prés', 'saint pres')).toBe('[Saint]-Germain-des-[Prés]');
+  });
+
+  it('marks accented text matched by an unaccented query, keeping the accents', () => {
+    expect(highlighted("Musée d'Orsay", 'musee')).toBe("[Musée] d'Orsay");
+    expect(highlighted('Éléphant de la Bastille', 'ele')).toBe('[Élé]phant de la Bastille');
+    expect(highlighted('Kraków Cloth Hall', 'krako')).toBe('[Krakó]w Cloth Hall');
+  });
+
+  it('marks as much of the original word as the match covers when letters normalize to several characters', () => {
+    // Hangul syllables decompose into two or three letters each
+    expect(normalizeText('서울').length).toBe(5);
+    expect(highlighted('서울역 광장', '서울')).toBe('[서울]역 광장');
+    expect(highlighted('서울역 광장', '서울역')).toBe('[서울역] 광장');
+  });
+
+  it('uses the longest query word that matches', () => {
+    expect(highlighted('Paris Plages', 'pa paris')).toBe('[Paris] Plages');
+  });
+
+  it('gives back the original text when the segments are joined', () => {
+    const text = "L'Arc de Triomphe de l'Étoile, 1806–1836";
+
+    expect(highlightMatches(text, 'etoile arc 1806').map((segment) => segment.text).join('')).toBe(text);
+    expect(highlighted(text, 'etoile arc 1806')).toBe("L'[Arc] de Triomphe de l'[Étoile], [1806]–1836");
+  });
+
+  it('leaves the text unmarked without a match or a query', () => {
+    expect(highlightMatches('Louvre', 'orsay')).toEqual([{ text: 'Louvre', match: false }]);
+    expect(highlightMatches('Louvre', '')).toEqual([{ text: 'Louvre', match: false }]);
+  });
+});
+
+describe('excerptAroundMatch', () => {
+  it('cuts the start of a text at a word boundary so the first match is near the beginning', () => {
+    const text = 'Built as the royal chapel of the Palais de la Cité, the Sainte-Chapelle';
+
+    expect(excerptAroundMatch(text, 'chapelle', 20)).toBe('…la Cité, the Sainte-Chapelle');
+  });
+
+  it('keeps a text whose first match is already near the beginning', () => {
+    expect(excerptAroundMatch('The Sainte-Chapelle', 'chapelle', 20)).toBe('The Sainte-Chapelle');
+  });
+});
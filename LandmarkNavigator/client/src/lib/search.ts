@@ -0,0 +1,225 @@
+import { Landmark } from '@/types';
+
+// Weight of a match in each field of a landmark
+const FIELD_WEIGHTS = {
+  title: 3,
+  facts: 2,
+  description: 1,
+};
+const PREFIX_MATCH_FACTOR = 0.5; // A prefix match counts for half an exact word match
+const TITLE_START_BONUS = 2; // Extra score when the title starts with the query
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface SearchIndex {
+  landmarks: Landmark[];
+  // Normalized token -> landmark index -> best field weight the token appears in
+  postings: Map<string, Map<number, number>>;
+  tokens: string[]; // Sorted vocabulary for prefix lookups
+}
+
+export interface SearchResult {
+  landmark: Landmark;
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Lowercase text and strip accents so "Musée" matches "musee"
+ * @param text Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized word tokens
+ * @param text Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Build a search index over landmark titles, descriptions and facts
+ * @param landmarks Landmarks to index
+ * @returns Index to pass to searchLandmarks
+ */
+export function buildSearchIndex(landmarks: Landmark[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+
+  const addField = (index: number, text: string | undefined, weight: number) => {
+    tokenize(text ?? '').forEach((token) => {
+      const posting = postings.get(token) ?? new Map<number, number>();
+      posting.set(index, Math.max(posting.get(index) ?? 0, weight));
+      postings.set(token, posting);
+    });
+  };
+
+  landmarks.forEach((landmark, index) => {
+    addField(index, landmark.title, FIELD_WEIGHTS.title);
+    addField(index, landmark.description, FIELD_WEIGHTS.description);
+    landmark.facts?.forEach((fact) => addField(index, fact.value, FIELD_WEIGHTS.facts));
+  });
+
+  return {
+    landmarks,
+    postings,
+    tokens: Array.from(postings.keys()).sort(),
+  };
+}
+
+/**
+ * Find landmarks matching every word of the query, best matches first.
+ * Query words match indexed words exactly or as a prefix, prefix matches scoring lower.
+ * @param index Index built with buildSearchIndex
+ * @param query Free-text query
+ * @returns Matching landmarks with their scores, highest first
+ */
+export function searchLandmarks(index: SearchIndex, query: string): SearchResult[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) {
+    return index.landmarks.map((landmark) => ({ landmark, score: 0 }));
+  }
+
+  let scores: Map<number, number> | null = null;
+
+  for (const queryToken of queryTokens) {
+    const tokenScores = new Map<number, number>();
+
+    tokensWithPrefix(index.tokens, queryToken).forEach((token) => {
+      const factor = token === queryToken ? 1 : PREFIX_MATCH_FACTOR;
+      index.postings.get(token)!.forEach((weight, landmarkIndex) => {
+        tokenScores.set(landmarkIndex, Math.max(tokenScores.get(landmarkIndex) ?? 0, weight * factor));
+      });
+    });
+
+    // Every query word has to match somewhere
+    const previous: Map<number, number> | null = scores;
+    scores = new Map<number, number>();
+    tokenScores.forEach((score, landmarkIndex) => {
+      if (!previous || previous.has(landmarkIndex)) {
+        scores!.set(landmarkIndex, (previous?.get(landmarkIndex) ?? 0) + score);
+      }
+    });
+  }
+
+  const normalizedQuery = queryTokens.join(' ');
+  return Array.from(scores!.entries())
+    .map(([landmarkIndex, score]) => {
+      const landmark = index.landmarks[landmarkIndex];
+      const titleStart = tokenize(landmark.title).join(' ').startsWith(normalizedQuery);
+      return { landmark, score: score + (titleStart ? TITLE_START_BONUS : 0) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Split text into segments, marking the parts that match words of the query
+ * @param text Text to highlight
+ * @param query Free-text query
+ * @returns Segments in order; joined together they give back the text
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const word of text.matchAll(TOKEN_PATTERN)) {
+    const start = word.index!;
+    const normalizedWord = normalizeText(word[0]);
+    const longest = queryTokens
+      .filter((token) => normalizedWord.startsWith(token))
+      .reduce((max, token) => Math.max(max, token.length), 0);
+
+    if (longest > 0) {
+      const end = start + originalLength(word[0], longest);
+      if (start > position) {
+        segments.push({ text: text.slice(position, start), match: false });
+      }
+      segments.push({ text: text.slice(start, end), match: true });
+      position = end;
+    }
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+  return segments;
+}
+
+/**
+ * Drop the start of a long text so that the first match of the query is near the beginning
+ * @param text Text to shorten
+ * @param query Free-text query
+ * @param leadLength Characters kept before the first match
+ * @returns The text, starting with an ellipsis when it was cut
+ */
+export function excerptAroundMatch(text: string, query: string, leadLength: number = 60): string {
+  let firstMatch = -1;
+  let offset = 0;
+  for (const segment of highlightMatches(text, query)) {
+    if (segment.match) {
+      firstMatch = offset;
+      break;
+    }
+    offset += segment.text.length;
+  }
+
+  if (firstMatch <= leadLength) {
+    return text;
+  }
+
+  // Start at a word boundary
+  const start = text.lastIndexOf(' ', firstMatch - leadLength) + 1;
+  return `…${text.slice(start)}`;
+}
+
+/**
+ * Tokens in a sorted vocabulary that start with the given prefix
+ */
+function tokensWithPrefix(tokens: string[], prefix: string): string[] {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (tokens[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < tokens.length && tokens[i].startsWith(prefix); i++) {
+    matches.push(tokens[i]);
+  }
+  return matches;
+}
+
+/**
+ * Number of characters of the original word that make up the first normalizedLength
+ * normalized characters (accented letters can normalize to several code units)
+ */
+function originalLength(word: string, normalizedLength: number): number {
+  let length = 0;
+  let consumed = 0;
+  for (const char of word) {
+    if (consumed >= normalizedLength) {
+      break;
+    }
+    consumed += normalizeText(char).length;
+    length += char.length;
+  }
+  return length;
+}
@@ -0,0 +1,56 @@
+export interface ShareData {
+  title: string;
+  text?: string;
+  url: string;
+}
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled';
+
+/**
+ * Share a link with the Web Share API, copying it to the clipboard where sharing isn't available
+ * @param data Title, optional text and URL to share
+ * @returns How the link was shared; 'cancelled' when the user closed the share sheet
+ */
+export async function shareLink(data: ShareData): Promise<ShareOutcome> {
+  if (typeof navigator.share === 'function' && (!navigator.canShare || navigator.canShare(data))) {
+    try {
+      await navigator.share(data);
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return 'cancelled';
+      }
+      // Sharing can be refused (e.g. without a user gesture); copying still works
+    }
+  }
+
+  await copyToClipboard(data.url);
+  return 'copied';
+}
+
+/**
+ * Copy text to the clipboard, falling back to a hidden text area where the Clipboard API
+ * is unavailable (e.g. on plain HTTP)
+ * @param text Text to copy
+ */
+export async function copyToClipboard(text: string): Promise<void> {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  const textArea = document.createElement('textarea');
+  textArea.value = text;
+  textArea.setAttribute('readonly', '');
+  textArea.style.position = 'fixed';
+  textArea.style.opacity = '0';
+  document.body.appendChild(textArea);
+  textArea.select();
+  try {
+    if (!document.execCommand('copy')) {
+      throw new Error('Copy command was rejected');
+    }
+  } finally {
+    document.body.removeChild(textArea);
+  }
+}
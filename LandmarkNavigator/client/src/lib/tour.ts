@@ -0,0 +1,131 @@
+import { calculateDistance } from './distance';
+
+export interface TourStop {
+  lat: number;
+  lon: number;
+}
+
+// Distance between two stops, in any unit, e.g. haversine kilometers or routed meters
+export type DistanceFunction<T> = (a: T, b: T) => number;
+
+const MAX_TWO_OPT_PASSES = 50; // Stops improving long before this on tours of a few dozen stops
+
+/**
+ * Straight-line distance between two stops
+ * @returns Distance in kilometers
+ */
+export function haversineDistance(a: TourStop, b: TourStop): number {
+  return calculateDistance([a.lat, a.lon], [b.lat, b.lon]);
+}
+
+/**
+ * Total length of a tour visiting the stops in order, without returning to the start
+ * @param stops Stops in visiting order
+ * @param distance Distance between two stops
+ * @returns Sum of the distances between consecutive stops
+ */
+export function tourDistance<T>(stops: T[], distance: DistanceFunction<T>): number {
+  let total = 0;
+  for (let i = 1; i < stops.length; i++) {
+    total += distance(stops[i - 1], stops[i]);
+  }
+  return total;
+}
+
+/**
+ * Find a short order to visit the stops in, optionally starting from a given position.
+ * Builds nearest-neighbour tours and improves them with 2-opt, so the result is close to,
+ * but not guaranteed to be, the shortest.
+ * @param stops Stops to visit
+ * @param distance Distance between two stops
+ * @param start Where the tour starts from, e.g. the user's position
+ * @returns The same stops in visiting order
+ */
+export function planTour<T extends TourStop>(
+  stops: T[],
+  distance: DistanceFunction<TourStop> = haversineDistance,
+  start?: TourStop
+): T[] {
+  if (stops.length < 3 && !start) {
+    return [...stops];
+  }
+
+  // Compute every distance once; the 2-opt passes look them up many times
+  const points: TourStop[] = start ? [start, ...stops] : stops;
+  const matrix = points.map((a) => points.map((b) => distance(a, b)));
+
+  if (start) {
+    // The start position isn't a stop, so drop it from the tour
+    const order = twoOpt(nearestNeighbour(matrix, 0), matrix);
+    return order.slice(1).map((index) => stops[index - 1]);
+  }
+
+  // Without a fixed start, any stop can begin the tour; keep the shortest
+  let best: number[] = [];
+  let bestLength = Infinity;
+  for (let first = 0; first < stops.length; first++) {
+    const order = twoOpt(nearestNeighbour(matrix, first), matrix);
+    const length = tourDistance(order, (a, b) => matrix[a][b]);
+    if (length < bestLength) {
+      best = order;
+      bestLength = length;
+    }
+  }
+  return best.map((index) => stops[index]);
+}
+
+/**
+ * Greedy tour from the first point that always moves to the closest point not visited yet
+ */
+function nearestNeighbour(matrix: number[][], first: number): number[] {
+  const visited = new Set<number>([first]);
+  const order = [first];
+
+  while (order.length < matrix.length) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (let candidate = 0; candidate < matrix.length; candidate++) {
+      if (!visited.has(candidate) && (nearest === -1 || matrix[current][candidate] < matrix[current][nearest])) {
+        nearest = candidate;
+      }
+    }
+    visited.add(nearest);
+    order.push(nearest);
+  }
+
+  return order;
+}
+
+/**
+ * Reverse segments of an open tour while that makes it shorter, keeping the first point fixed
+ */
+function twoOpt(order: number[], matrix: number[][]): number[] {
+  const tour = [...order];
+  let improved = true;
+
+  for (let pass = 0; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = 1; i < tour.length - 1; i++) {
+      for (let j = i + 1; j < tour.length; j++) {
+        // Replace edges (i-1, i) and (j, j+1) with (i-1, j) and (i, j+1); the tour is open,
+        // so reversing up to the last stop only changes the first edge
+        const before = matrix[tour[i - 1]][tour[i]] + (j + 1 < tour.length ? matrix[tour[j]][tour[j + 1]] : 0);
+        const after = matrix[tour[i - 1]][tour[j]] + (j + 1 < tour.length ? matrix[tour[i]][tour[j + 1]] : 0);
+        if (after < before - 1e-9) {
+          reverseSegment(tour, i, j);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return tour;
+}
+
+function reverseSegment(tour: number[], from: number, to: number): void {
+  while (from < to) {
+    [tour[from], tour[to]] = [tour[to], tour[from]];
+    from++;
+    to--;
+  }
+}
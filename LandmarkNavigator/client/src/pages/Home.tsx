@@ -1,24 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
+import L from "leaflet";
 import Header from "@/components/Header";
 import MapContainer from "@/components/MapContainer";
 import LandmarkPanel from "@/components/LandmarkPanel";
 import DetailView from "@/components/DetailView";
 import WelcomeOverlay from "@/components/WelcomeOverlay";
 import BookmarksPanel from "@/components/BookmarksPanel";
-import { Landmark } from "@/types";
+import DirectionsSheet from "@/components/DirectionsSheet";
+import TourPlanner from "@/components/TourPlanner";
+import { Bookmark, GeocodeResult, Landmark, LandmarkCluster, RouteStep, TravelMode } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { useMapBounds } from "@/hooks/use-map-bounds";
 import { useUserLocation } from "@/hooks/use-user-location";
 import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useLanguage } from "@/hooks/use-language";
+import { useMapStyle } from "@/hooks/use-map-style";
+import { useMapLink } from "@/hooks/use-map-link";
+import { useRoutes } from "@/hooks/use-routes";
 import { calculateDistance } from "@/lib/distance";
+import { buildSearchIndex, searchLandmarks } from "@/lib/search";
+import { snapBoundsToTiles } from "@shared/tiles";
+import { clusterViewLandmarks } from "@shared/clusters";
+import { DEFAULT_CATEGORY, LandmarkCategory } from "@shared/categories";
+import { bookmarkKey } from "@shared/bookmarks";
+
+const LINKED_LANDMARK_ZOOM = 16; // Zoom used when a link names a landmark but no map position
+const ROUTE_STEP_ZOOM = 17;
 
 export default function Home() {
+  const { initialLink, updateLink } = useMapLink();
   const [selectedLandmark, setSelectedLandmark] = useState<Landmark | null>(null);
-  const [searchQuery, setSearchQuery] = useState<string>("");
-  const [sortOption, setSortOption] = useState<string>("distance");
+  // Landmark named in the link, loaded from the server before it can be selected
+  const [pendingLandmarkId, setPendingLandmarkId] = useState<number | null>(initialLink.landmark ?? null);
+  const [searchQuery, setSearchQuery] = useState<string>(initialLink.query ?? "");
+  const [sortOption, setSortOption] = useState<string>(initialLink.query ? "relevance" : "distance");
+  const [categoryFilter, setCategoryFilter] = useState<LandmarkCategory[]>(initialLink.categories ?? []);
   const [followUserMode, setFollowUserMode] = useState<boolean>(false);
-  const { bounds, setBounds, center, setCenter } = useMapBounds();
+  const [directionsLandmark, setDirectionsLandmark] = useState<Landmark | null>(null);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walk");
+  const [tourOpen, setTourOpen] = useState<boolean>(false);
+  const [tourStopKeys, setTourStopKeys] = useState<string[]>([]);
+  const { bounds, zoom, updateView, viewport, setViewport } = useMapBounds(
+    initialLink.lat !== undefined && initialLink.lon !== undefined
+      ? { center: [initialLink.lat, initialLink.lon], zoom: initialLink.zoom }
+      : null
+  );
   const { 
     position: userPosition, 
     accuracy: userAccuracy, 
@@ -30,18 +57,43 @@ export default function Home() {
     getUserLocation
   } = useUserLocation();
   const { toast } = useToast();
-  const { bookmarks, isBookmarked, toggleBookmark } = useBookmarks();
+  const {
+    bookmarks,
+    collections,
+    tags: bookmarkTags,
+    sync: bookmarkSync,
+    isBookmarked,
+    toggleBookmark,
+    updateBookmark,
+    createCollection,
+    renameCollection,
+    deleteCollection
+  } = useBookmarks();
+  const { language, setLanguage } = useLanguage(initialLink.lang);
+  const { selectedStyleId, selectedStyle, setStyle } = useMapStyle(initialLink.style);
 
-  const { data: landmarks, isLoading, error, refetch } = useQuery({
-    queryKey: ['/api/landmarks', bounds?.getNorth(), bounds?.getSouth(), bounds?.getEast(), bounds?.getWest()],
-    enabled: !!bounds,
+  // Snap the query to the tile grid so small pans reuse the same request
+  const queryBounds = bounds && zoom !== null
+    ? snapBoundsToTiles({
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest()
+      }, zoom)
+    : null;
+
+  const { data: tileLandmarks, isLoading, error, refetch } = useQuery<Landmark[]>({
+    queryKey: ['/api/landmarks', queryBounds?.north, queryBounds?.south, queryBounds?.east, queryBounds?.west, zoom, language],
+    enabled: !!queryBounds,
     queryFn: async ({ queryKey }) => {
-      const [url, north, south, east, west] = queryKey as [string, number, number, number, number];
+      const [url, north, south, east, west, zoom, lang] = queryKey as [string, number, number, number, number, number, string];
       const params = new URLSearchParams({
         north: north.toString(),
         south: south.toString(),
         east: east.toString(),
-        west: west.toString()
+        west: west.toString(),
+        zoom: zoom.toString(),
+        lang
       });
       const response = await fetch(`${url}?${params}`);
       if (!response.ok) {
@@ -52,6 +104,113 @@ export default function Home() {
     },
   });
 
+  const { data: linkedLandmark, error: linkedLandmarkError } = useQuery<Landmark>({
+    queryKey: [`/api/landmarks/${pendingLandmarkId}?lang=${language}`],
+    enabled: pendingLandmarkId !== null,
+  });
+
+  // Open the linked landmark once it has loaded, centering on it unless the link placed the map
+  useEffect(() => {
+    if (linkedLandmark) {
+      setSelectedLandmark(linkedLandmark);
+      if (initialLink.lat === undefined) {
+        setViewport({ center: [linkedLandmark.lat, linkedLandmark.lon], zoom: initialLink.zoom ?? LINKED_LANDMARK_ZOOM });
+      }
+      setPendingLandmarkId(null);
+    }
+  }, [linkedLandmark, initialLink, setViewport]);
+
+  useEffect(() => {
+    if (linkedLandmarkError) {
+      toast({
+        title: "Landmark not found",
+        description: "The landmark in this link could not be loaded.",
+        variant: "destructive",
+      });
+      setPendingLandmarkId(null);
+    }
+  }, [linkedLandmarkError, toast]);
+
+  // Keep the URL in sync with the map so the current view can be shared
+  const linkedLandmarkId = selectedLandmark?.pageid ?? pendingLandmarkId ?? undefined;
+  useEffect(() => {
+    if (!bounds || zoom === null) {
+      return;
+    }
+    const center = bounds.getCenter();
+    updateLink({
+      lat: center.lat,
+      lon: center.lng,
+      zoom,
+      style: selectedStyleId,
+      lang: language,
+      query: searchQuery.trim() || undefined,
+      categories: categoryFilter,
+      landmark: linkedLandmarkId,
+    });
+  }, [bounds, zoom, selectedStyleId, language, searchQuery, categoryFilter, linkedLandmarkId, updateLink]);
+
+  // Route from the user to the landmark directions were asked for
+  const routeOrigin = useMemo<[number, number] | null>(() => {
+    if (!userPosition) {
+      return null;
+    }
+    const { lat, lng } = L.latLng(userPosition);
+    return [lat, lng];
+  }, [userPosition]);
+  const routes = useRoutes(
+    directionsLandmark ? routeOrigin : null,
+    directionsLandmark ? [directionsLandmark.lat, directionsLandmark.lon] : null
+  );
+  const selectedRoute = routes[travelMode].data;
+
+  // Fit the map to a route when it is first shown for a destination and travel mode
+  const fittedRouteKey = useRef<string | null>(null);
+  useEffect(() => {
+    const routeKey = directionsLandmark ? `${directionsLandmark.pageid}_${travelMode}` : null;
+    if (!routeKey || !selectedRoute || fittedRouteKey.current === routeKey) {
+      return;
+    }
+    fittedRouteKey.current = routeKey;
+    const routeBounds = L.latLngBounds(selectedRoute.geometry);
+    setViewport({
+      center: [routeBounds.getCenter().lat, routeBounds.getCenter().lng],
+      bounds: {
+        north: routeBounds.getNorth(),
+        south: routeBounds.getSouth(),
+        east: routeBounds.getEast(),
+        west: routeBounds.getWest()
+      }
+    });
+  }, [directionsLandmark, travelMode, selectedRoute, setViewport]);
+
+  const handleDirections = (landmark: Landmark) => {
+    setSelectedLandmark(null);
+    setTourOpen(false);
+    setDirectionsLandmark(landmark);
+    fittedRouteKey.current = null;
+    if (!userPosition) {
+      getUserLocation();
+    }
+  };
+
+  const handleSelectRouteStep = (step: RouteStep) => {
+    setViewport({ center: step.location, zoom: ROUTE_STEP_ZOOM });
+  };
+
+  // Tour stops are bookmarks, so removing a bookmark also drops it from the tour
+  const tourStops = tourStopKeys
+    .map(key => bookmarks.find(bookmark => bookmarkKey(bookmark) === key))
+    .filter((stop): stop is Bookmark => !!stop);
+
+  const handlePlanTour = () => {
+    setDirectionsLandmark(null);
+    setTourOpen(true);
+  };
+
+  // Index the fetched landmarks once per response for full-text search
+  const searchIndex = useMemo(() => buildSearchIndex(tileLandmarks ?? []), [tileLandmarks]);
+
   const handleSelectLandmark = (landmark: Landmark) => {
     setSelectedLandmark(landmark);
   };
@@ -61,6 +220,10 @@ export default function Home() {
   };
 
   const handleSearch = (query: string) => {
+    // Show the best matches first when a search starts
+    if (!searchQuery.trim() && query.trim()) {
+      setSortOption("relevance");
+    }
     setSearchQuery(query);
   };
 
@@ -68,42 +231,41 @@ export default function Home() {
     setSortOption(option);
   };
 
-  const handleMapSearch = async (location: string) => {
-    try {
-      const response = await fetch(`/api/geocode?q=${encodeURIComponent(location)}`);
-      
-      if (!response.ok) {
-        throw new Error("Location not found");
-      }
-      
-      const data = await response.json();
-      
-      if (data && data.lat && data.lon) {
-        setCenter([data.lat, data.lon]);
-        toast({
-          title: "Location found",
-          description: `Showing landmarks near ${location}`,
-        });
-      } else {
-        toast({
-          title: "Location not found",
-          description: "Could not find the specified location",
-          variant: "destructive"
-        });
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to search for location",
-        variant: "destructive"
-      });
-    }
+  const handleSelectLocation = (result: GeocodeResult) => {
+    setViewport({ center: [result.lat, result.lon], bounds: result.boundingbox });
+    toast({
+      title: "Location found",
+      description: `Showing landmarks near ${result.display_name}`,
+    });
   };
 
-  // Filter landmarks based on search query
-  const filteredLandmarks = landmarks?.filter(landmark => 
-    !searchQuery || landmark.title.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Search titles, descriptions and facts, keeping only the landmarks inside the visible viewport
+  const searchResults = tileLandmarks
+    ? searchLandmarks(searchIndex, searchQuery).filter(({ landmark }) =>
+        !bounds || bounds.contains([landmark.lat, landmark.lon])
+      )
+    : undefined;
+  const relevance = new Map(searchResults?.map(({ landmark, score }) => [landmark.pageid, score]));
+  const matchingLandmarks = searchResults?.map(({ landmark }) => landmark);
+
+  // Count matches per category before narrowing to the selected categories
+  const categoryCounts: Partial<Record<LandmarkCategory, number>> = {};
+  matchingLandmarks?.forEach(landmark => {
+    const category = landmark.category ?? DEFAULT_CATEGORY;
+    categoryCounts[category] = (categoryCounts[category] ?? 0) + 1;
+  });
+
+  const inCategories = (landmark: Landmark) =>
+    categoryFilter.length === 0 || categoryFilter.includes(landmark.category ?? DEFAULT_CATEGORY);
+  const filteredLandmarks = matchingLandmarks?.filter(inCategories);
+
+  // Cluster every landmark of the fetched tiles in the selected categories, the same way
+  // /api/landmarks/clusters does, so each view costs one request; while searching, cluster
+  // just the matches so the markers follow the search. Either way only the most notable
+  // are shown when zoomed far out.
+  const mapClusters: LandmarkCluster[] = !tileLandmarks || !filteredLandmarks || zoom === null
+    ? []
+    : clusterViewLandmarks(searchQuery.trim() ? filteredLandmarks : tileLandmarks.filter(inCategories), zoom);
 
   // Calculate distances to user position if available
   useEffect(() => {
@@ -139,21 +301,26 @@ export default function Home() {
 
   // Sort landmarks
   const sortedLandmarks = filteredLandmarks ? [...filteredLandmarks].sort((a, b) => {
-    if (sortOption === "alphabetical") {
+    if (sortOption === "relevance") {
+      return (relevance.get(b.pageid) ?? 0) - (relevance.get(a.pageid) ?? 0);
+    } else if (sortOption === "notability") {
+      return (b.notability ?? 0) - (a.notability ?? 0);
+    } else if (sortOption === "alphabetical") {
       return a.title.localeCompare(b.title);
     } else if (sortOption === "distance") {
       if (userPosition && a.distance !== undefined && b.distance !== undefined) {
         // Sort by distance to user if tracking
         return a.distance - b.distance;
-      } else if (center) {
+      } else if (viewport) {
         // Fallback to center point distance
+        const [centerLat, centerLon] = viewport.center;
         const distA = Math.sqrt(
-          Math.pow(a.lat - (Array.isArray(center) ? center[0] : center.lat), 2) + 
-          Math.pow(a.lon - (Array.isArray(center) ? center[1] : center.lng), 2)
+          Math.pow(a.lat - centerLat, 2) + 
+          Math.pow(a.lon - centerLon, 2)
         );
         const distB = Math.sqrt(
-          Math.pow(b.lat - (Array.isArray(center) ? center[0] : center.lat), 2) + 
-          Math.pow(b.lon - (Array.isArray(center) ? center[1] : center.lng), 2)
+          Math.pow(b.lat - centerLat, 2) + 
+          Math.pow(b.lon - centerLon, 2)
         );
         return distA - distB;
       }
@@ -165,7 +332,7 @@ export default function Home() {
   useEffect(() => {
     if (filteredLandmarks && bookmarks.length > 0) {
       filteredLandmarks.forEach(landmark => {
-        landmark.isBookmarked = isBookmarked(landmark.pageid);
+        landmark.isBookmarked = isBookmarked(landmark);
       });
     }
   }, [filteredLandmarks, bookmarks, isBookmarked]);
@@ -174,8 +341,8 @@ export default function Home() {
   const handleToggleBookmark = (landmark: Landmark) => {
     toggleBookmark(landmark);
     toast({
-      title: isBookmarked(landmark.pageid) ? "Bookmark removed" : "Bookmark added",
-      description: isBookmarked(landmark.pageid) 
+      title: isBookmarked(landmark) ? "Bookmark removed" : "Bookmark added",
+      description: isBookmarked(landmark) 
         ? `${landmark.title} has been removed from your bookmarks.` 
         : `${landmark.title} has been added to your bookmarks.`,
     });
@@ -184,26 +351,32 @@ export default function Home() {
   // Auto-center map on user location when follow mode is active
   useEffect(() => {
     if (followUserMode && userPosition) {
-      setCenter(userPosition);
+      const { lat, lng } = L.latLng(userPosition);
+      setViewport({ center: [lat, lng] });
     }
-  }, [followUserMode, userPosition, setCenter]);
+  }, [followUserMode, userPosition, setViewport]);
 
   return (
     <div className="flex flex-col h-screen">
       <WelcomeOverlay />
-      <Header />
+      <Header language={language} onLanguageChange={setLanguage} />
       
       <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
         <MapContainer 
-          landmarks={sortedLandmarks || []} 
+          clusters={mapClusters} 
           selectedLandmark={selectedLandmark}
           onSelectLandmark={handleSelectLandmark}
           loading={isLoading}
           error={error ? String(error) : null}
-          onBoundsChange={setBounds}
-          onSearchLocation={handleMapSearch}
-          center={center}
-          setCenter={setCenter}
+          onBoundsChange={updateView}
+          onSelectLocation={handleSelectLocation}
+          language={language}
+          viewport={viewport}
+          setViewport={setViewport}
+          mapStyle={selectedStyle}
+          onSelectMapStyle={setStyle}
+          routeLine={directionsLandmark ? selectedRoute?.geometry : null}
+          tourStops={tourStops}
           onRefetch={refetch}
           userPosition={userPosition}
           userAccuracy={userAccuracy}
@@ -221,6 +394,9 @@ export default function Home() {
           onSortChange={handleSortChange}
           filterValue={searchQuery}
           sortValue={sortOption}
+          categoryCounts={categoryCounts}
+          categoryFilter={categoryFilter}
+          onCategoryFilterChange={setCategoryFilter}
         />
       </div>
       
@@ -229,20 +405,48 @@ export default function Home() {
           landmark={selectedLandmark}
           onClose={handleCloseDetail}
           onToggleBookmark={handleToggleBookmark}
-          isBookmarked={isBookmarked(selectedLandmark.pageid)}
+          onDirections={handleDirections}
+          isBookmarked={isBookmarked(selectedLandmark)}
+        />
+      )}
+
+      {directionsLandmark && (
+        <DirectionsSheet
+          landmark={directionsLandmark}
+          routes={routes}
+          mode={travelMode}
+          onModeChange={setTravelMode}
+          locating={!userPosition && locationLoading}
+          locationError={userPosition ? null : locationError}
+          onSelectStep={handleSelectRouteStep}
+          onClose={() => setDirectionsLandmark(null)}
+        />
+      )}
+
+      {tourOpen && (
+        <TourPlanner
+          bookmarks={bookmarks}
+          stops={tourStops}
+          onStopsChange={(stops) => setTourStopKeys(stops.map(bookmarkKey))}
+          startPosition={routeOrigin}
+          onSelectLandmark={handleSelectLandmark}
+          onClose={() => setTourOpen(false)}
         />
       )}
 
       {/* Bookmarks Panel */}
       <BookmarksPanel 
         bookmarks={bookmarks}
+        collections={collections}
+        tags={bookmarkTags}
+        sync={bookmarkSync}
         onSelectLandmark={handleSelectLandmark}
-        onRemoveBookmark={(landmarkId) => {
-          const bookmark = bookmarks.find(b => b.pageid === landmarkId);
-          if (bookmark) {
-            handleToggleBookmark(bookmark);
-          }
-        }}
+        onRemoveBookmark={handleToggleBookmark}
+        onUpdateBookmark={updateBookmark}
+        onCreateCollection={createCollection}
+        onRenameCollection={renameCollection}
+        onDeleteCollection={deleteCollection}
+        onPlanTour={handlePlanTour}
       />
     </div>
   );
@@ -1,3 +1,5 @@
+import type { LandmarkCategory } from "@shared/categories";
+
 export interface Landmark {
   pageid: number;
   title: string;
@@ -7,12 +9,45 @@ export interface Landmark {
   thumbnail?: string;
   address?: string;
   distance?: number;
+  lang?: string;
+  wikidata?: string;
+  source?: LandmarkSourceName; // Wikipedia when absent
+  category?: LandmarkCategory;
+  notability?: number; // 0-100, higher for better known landmarks
+  url?: string; // Page on the source site, for landmarks not from Wikipedia
   isBookmarked?: boolean;
-  facts?: Array<{
-    type: string;
-    label: string;
-    value: string;
-  }>;
+  facts?: LandmarkFact[];
+}
+
+export type LandmarkSourceName = "wikipedia" | "osm" | "wikivoyage";
+
+export interface LandmarkFact {
+  type: string;
+  label: string;
+  value: string;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapViewport {
+  center: [number, number];
+  zoom?: number;
+  bounds?: MapBounds; // Fit to these bounds instead of centering when present
+}
+
+export interface LandmarkCluster {
+  id: string;
+  lat: number;
+  lon: number;
+  count: number;
+  bounds: MapBounds;
+  landmarks: Landmark[]; // A few representatives, the most notable first
+  members?: Landmark[]; // Every landmark in the cluster, for clusters built in the browser
 }
 
 export interface WikiGeosearchResult {
@@ -23,6 +58,8 @@ export interface WikiGeosearchResult {
   lon: number;
   dist: number;
   primary: string;
+  type?: string;
+  dim?: number; // Approximate size of the object in metres
 }
 
 export interface WikiLandmarkDetails {
@@ -34,10 +71,74 @@ export interface WikiLandmarkDetails {
     width: number;
     height: number;
   };
+  wikibaseItem?: string;
+  categories?: string[];
+  length?: number; // Page size in bytes
+  pageviews?: number; // Views over the last 30 days
+}
+
+export interface WikiLangLink {
+  lang: string;
+  title: string;
+  url: string;
+  autonym?: string;
 }
 
 export interface GeocodeResult {
   lat: number;
   lon: number;
   display_name: string;
+  type: string;
+  source: "wikipedia" | "nominatim" | "photon";
+  boundingbox?: MapBounds;
+}
+
+export interface ReverseGeocodeResult {
+  display_name: string;
+  address: {
+    house_number?: string;
+    road?: string;
+    suburb?: string;
+    village?: string;
+    town?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    postcode?: string;
+  };
+}
+
+export type TravelMode = "walk" | "bike" | "drive";
+
+export interface RouteStep {
+  instruction: string;
+  distance: number; // Meters
+  duration: number; // Seconds
+  location: [number, number]; // Where the maneuver happens, as [lat, lon]
+}
+
+export interface RouteResult {
+  mode: TravelMode;
+  distance: number; // Meters
+  duration: number; // Seconds
+  geometry: [number, number][]; // Route line as [lat, lon] points
+  steps: RouteStep[];
+}
+
+export interface Bookmark extends Landmark {
+  note: string;
+  tags: string[];
+  visited: boolean;
+  collectionIds: string[]; // Collections the bookmark belongs to; it can be in several or none
+  savedAt: number;
+  updatedAt: number;
+  deleted?: boolean; // Kept as a tombstone so the deletion syncs to other devices
+}
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  deleted?: boolean;
 }
@@ -0,0 +1,64 @@
+import { reverseGeocode } from "./api/nominatim";
+import { queueAddressLookups } from "./addresses";
+import { storage } from "./storage";
+import { Landmark, ReverseGeocodeResult } from "@/types";
+
+jest.mock("./api/nominatim", () => ({
+  ...jest.requireActual("./api/nominatim"),
+  reverseGeocode: jest.fn(),
+}));
+
+const reverseGeocodeMock = reverseGeocode as jest.MockedFunction<typeof reverseGeocode>;
+
+const champDeMars: ReverseGeocodeResult = {
+  display_name: "Tour Eiffel, 5, Avenue Anatole France, Paris, France",
+  address: { road: "Avenue Anatole France", house_number: "5", city: "Paris", country: "France" },
+};
+
+/**
+ * Let the background lookup and its storage writes finish
+ */
+const flushLookups = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe("queueAddressLookups", () => {
+  it("stores the address without undoing newer changes to the landmark", async () => {
+    const snapshot: Landmark = { pageid: 9232, lang: "en", title: "Eiffel Tower", lat: 48.8584, lon: 2.2945 };
+    await storage.upsertLandmarks([snapshot]);
+    let finishLookup!: (result: ReverseGeocodeResult) => void;
+    reverseGeocodeMock.mockReturnValueOnce(new Promise((resolve) => {
+      finishLookup = resolve;
+    }));
+
+    queueAddressLookups([snapshot], "en");
+    // Enrichment lands while the lookup waits in the Nominatim queue
+    await storage.upsertLandmarks([{ ...snapshot, description: "Wrought-iron lattice tower", notability: 98 }]);
+    const enriched = await storage.getLandmark(snapshot.pageid, "en");
+    finishLookup(champDeMars);
+    await flushLookups();
+
+    expect(await storage.getLandmark(snapshot.pageid, "en")).toEqual({
+      ...enriched,
+      address: "Avenue Anatole France 5, Paris, France",
+    });
+  });
+
+  it("looks up each position once while a lookup is pending", async () => {
+    const louvre: Landmark = { pageid: 17569, lang: "en", title: "Louvre", lat: 48.8606, lon: 2.3376 };
+    reverseGeocodeMock.mockClear();
+    reverseGeocodeMock.mockResolvedValue(null);
+
+    queueAddressLookups([louvre, louvre], "en");
+    queueAddressLookups([louvre], "en");
+    await flushLookups();
+
+    expect(reverseGeocodeMock).toHaveBeenCalledTimes(1);
+  });
+});
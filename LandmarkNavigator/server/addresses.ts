@@ -0,0 +1,83 @@
+import { storage } from "./storage";
+import { formatAddress, reverseGeocode } from "./api/nominatim";
+import { QueueFullError } from "./queue";
+import { Landmark, ReverseGeocodeResult } from "@/types";
+
+// Constants
+const ADDRESS_CACHE_EXPIRY_TIME = 1000 * 60 * 60 * 24 * 30; // 30 days, addresses rarely change
+const COORDINATE_PRECISION = 4; // Decimal places kept in cache keys (about 11 m)
+
+// Coordinates with a background lookup already queued
+const pendingLookups = new Set<string>();
+
+function addressCacheKey(lat: number, lon: number, lang: string): string {
+  return `reverse_${lang}_${lat.toFixed(COORDINATE_PRECISION)}_${lon.toFixed(COORDINATE_PRECISION)}`;
+}
+
+/**
+ * Reverse geocode coordinates, caching results (including misses) by rounded position
+ */
+export async function lookupAddress(
+  lat: number,
+  lon: number,
+  lang: string,
+  options: { priority?: boolean } = {}
+): Promise<ReverseGeocodeResult | null> {
+  const cacheKey = addressCacheKey(lat, lon, lang);
+  const cached = await storage.getCachedData(cacheKey);
+
+  if (cached) {
+    return cached.result;
+  }
+
+  const result = await reverseGeocode(
+    Number(lat.toFixed(COORDINATE_PRECISION)),
+    Number(lon.toFixed(COORDINATE_PRECISION)),
+    lang,
+    options
+  );
+  await storage.cacheData(cacheKey, { result }, Date.now() + ADDRESS_CACHE_EXPIRY_TIME);
+
+  return result;
+}
+
+/**
+ * Formatted address for the coordinates if it has already been looked up
+ */
+export async function getCachedAddress(
+  lat: number,
+  lon: number,
+  lang: string
+): Promise<string | undefined> {
+  const cached = await storage.getCachedData(addressCacheKey(lat, lon, lang));
+  return cached?.result ? formatAddress(cached.result) : undefined;
+}
+
+/**
+ * Look up addresses for landmarks in the background and store them once resolved.
+ * Lookups go through the rate-limited Nominatim queue, so they never delay the response.
+ */
+export function queueAddressLookups(landmarks: Landmark[], lang: string): void {
+  landmarks.forEach((landmark) => {
+    const key = addressCacheKey(landmark.lat, landmark.lon, lang);
+    if (pendingLookups.has(key)) {
+      return;
+    }
+    pendingLookups.add(key);
+
+    lookupAddress(landmark.lat, landmark.lon, lang)
+      .then(async (result) => {
+        if (result) {
+          // Only the address: the landmark may have been refreshed since this lookup was queued
+          await storage.updateLandmarkAddress(landmark.pageid, lang, formatAddress(result));
+        }
+      })
+      .catch((error) => {
+        if (error instanceof QueueFullError) {
+          return; // Retried the next time the landmark is requested
+        }
+        console.error(`Error looking up address for ${landmark.title}:`, error);
+      })
+      .finally(() => pendingLookups.delete(key));
+  });
+}
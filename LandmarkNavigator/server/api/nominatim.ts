@@ -0,0 +1,130 @@
+import axios from "axios";
+import { GeocodeResult, ReverseGeocodeResult } from "@/types";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
+import { RateLimitedQueue } from "../queue";
+
+// Any Nominatim-compatible server can be used, e.g. a local instance during development
+const NOMINATIM_BASE_URL = process.env.NOMINATIM_BASE_URL || "https://nominatim.openstreetmap.org";
+const NOMINATIM_MIN_INTERVAL = Number(process.env.NOMINATIM_MIN_INTERVAL_MS) || 1000; // 1 request per second
+const NOMINATIM_TIMEOUT = Number(process.env.NOMINATIM_TIMEOUT_MS) || 10000;
+const MAX_PENDING_REQUESTS = 500;
+const USER_AGENT = "LandmarkExplorer/1.0";
+
+// All Nominatim requests from this process share one queue to honour the usage policy
+const nominatimQueue = new RateLimitedQueue(NOMINATIM_MIN_INTERVAL, MAX_PENDING_REQUESTS, NOMINATIM_TIMEOUT);
+
+/**
+ * Look up the address at the given coordinates
+ */
+export async function reverseGeocode(
+  lat: number,
+  lon: number,
+  lang: string = DEFAULT_LANGUAGE,
+  options: { priority?: boolean } = {}
+): Promise<ReverseGeocodeResult | null> {
+  try {
+    const response = await nominatimQueue.schedule((signal) =>
+      axios.get(`${NOMINATIM_BASE_URL}/reverse`, {
+        params: {
+          lat,
+          lon,
+          format: "json",
+          zoom: 18,
+          addressdetails: 1,
+        },
+        headers: {
+          "User-Agent": USER_AGENT,
+          "Accept-Language": lang,
+        },
+        timeout: NOMINATIM_TIMEOUT,
+        signal,
+      }),
+      options
+    );
+
+    if (!response.data || response.data.error) {
+      return null;
+    }
+
+    return {
+      display_name: response.data.display_name,
+      address: response.data.address ?? {},
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error reverse geocoding with Nominatim:", error.message);
+    } else {
+      console.error("Error reverse geocoding with Nominatim:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Search for places by name. Aborting the signal takes the search off the queue or cancels its request.
+ */
+export async function searchPlaces(
+  query: string,
+  lang: string = DEFAULT_LANGUAGE,
+  limit: number = 5,
+  signal?: AbortSignal
+): Promise<GeocodeResult[]> {
+  try {
+    const response = await nominatimQueue.schedule(
+      (taskSignal) =>
+        axios.get(`${NOMINATIM_BASE_URL}/search`, {
+          params: {
+            q: query,
+            format: "json",
+            limit,
+          },
+          headers: {
+            "User-Agent": USER_AGENT,
+            "Accept-Language": lang,
+          },
+          timeout: NOMINATIM_TIMEOUT,
+          signal: taskSignal,
+        }),
+      { priority: true, signal }
+    );
+
+    return (response.data ?? []).map((place: any) => ({
+      lat: parseFloat(place.lat),
+      lon: parseFloat(place.lon),
+      display_name: place.display_name,
+      type: place.type,
+      source: "nominatim" as const,
+      // Nominatim orders the bounding box as [south, north, west, east]
+      boundingbox: place.boundingbox
+        ? {
+            south: parseFloat(place.boundingbox[0]),
+            north: parseFloat(place.boundingbox[1]),
+            west: parseFloat(place.boundingbox[2]),
+            east: parseFloat(place.boundingbox[3]),
+          }
+        : undefined,
+    }));
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error; // Given up on by the caller, nothing to report
+    }
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error searching Nominatim:", error.message);
+    } else {
+      console.error("Error searching Nominatim:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a short, human readable address from a reverse geocoding result
+ */
+export function formatAddress(result: ReverseGeocodeResult): string {
+  const { address } = result;
+  const street = [address.road, address.house_number].filter(Boolean).join(" ");
+  const locality = address.city || address.town || address.village || address.suburb;
+  const parts = [street, locality, address.country].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : result.display_name;
+}
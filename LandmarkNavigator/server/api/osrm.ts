@@ -0,0 +1,137 @@
+import axios from "axios";
+import { RouteResult, RouteStep, TravelMode } from "@/types";
+
+// Any OSRM-compatible server can be used. "{profile}" in the URL is replaced by the routing
+// profile, for deployments that run one server per profile like routing.openstreetmap.de
+const ROUTING_BASE_URL = process.env.ROUTING_BASE_URL || "https://routing.openstreetmap.de/routed-{profile}";
+const ROUTING_TIMEOUT_MS = Number(process.env.ROUTING_TIMEOUT_MS) || 10000;
+const USER_AGENT = "LandmarkExplorer/1.0";
+
+// OSRM profile serving each travel mode
+const ROUTING_PROFILES: Record<TravelMode, string> = {
+  walk: "foot",
+  bike: "bike",
+  drive: "car",
+};
+
+/**
+ * Error thrown when the routing server finds no route between the points
+ */
+export class NoRouteError extends Error {
+  constructor(message: string = "No route found.") {
+    super(message);
+    this.name = "NoRouteError";
+  }
+}
+
+/**
+ * Fetch a route between two points with OSRM, including turn-by-turn steps
+ */
+export async function fetchRoute(
+  from: [number, number],
+  to: [number, number],
+  mode: TravelMode
+): Promise<RouteResult> {
+  const profile = ROUTING_PROFILES[mode];
+  const baseUrl = ROUTING_BASE_URL.replace("{profile}", profile);
+  const coordinates = [from, to].map(([lat, lon]) => `${lon},${lat}`).join(";");
+
+  try {
+    const response = await axios.get(`${baseUrl}/route/v1/${profile}/${coordinates}`, {
+      params: {
+        overview: "full",
+        geometries: "geojson",
+        steps: true,
+      },
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+      timeout: ROUTING_TIMEOUT_MS,
+    });
+
+    const route = response.data?.routes?.[0];
+    if (response.data?.code !== "Ok" || !route) {
+      throw new NoRouteError();
+    }
+
+    return {
+      mode,
+      distance: route.distance,
+      duration: route.duration,
+      geometry: route.geometry.coordinates.map(([lon, lat]: [number, number]) => [lat, lon]),
+      steps: (route.legs ?? []).flatMap((leg: any) =>
+        (leg.steps ?? []).map((step: any): RouteStep => ({
+          instruction: formatInstruction(step),
+          distance: step.distance,
+          duration: step.duration,
+          location: [step.maneuver.location[1], step.maneuver.location[0]],
+        }))
+      ),
+    };
+  } catch (error) {
+    // OSRM answers 400 with code "NoRoute" when the points can't be connected
+    if (axios.isAxiosError(error) && error.response?.data?.code === "NoRoute") {
+      throw new NoRouteError();
+    }
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error fetching route:", error.message);
+    } else if (!(error instanceof NoRouteError)) {
+      console.error("Error fetching route:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe an OSRM step in words, e.g. "Turn left onto Rue de Rivoli"
+ */
+export function formatInstruction(step: any): string {
+  const { type, modifier: direction = "", exit, bearing_after: bearing } = step.maneuver ?? {};
+  const road = step.name || step.ref;
+  const onto = road ? ` onto ${road}` : "";
+
+  switch (type) {
+    case "depart":
+      if (bearing === undefined && !road) {
+        return "Depart";
+      }
+      return `Head ${bearing !== undefined ? `${compassDirection(bearing)} ` : ""}${road ? `on ${road}` : ""}`.trim();
+    case "arrive":
+      return direction === "left" || direction === "right"
+        ? `Arrive at your destination, on the ${direction}`
+        : "Arrive at your destination";
+    case "roundabout":
+    case "rotary":
+      return exit ? `At the roundabout, take exit ${exit}${onto}` : `Enter the roundabout${onto}`;
+    case "merge":
+      return `Merge${direction ? ` ${direction}` : ""}${onto}`;
+    case "fork":
+      return `Keep ${direction || "straight"} at the fork${onto}`;
+    case "on ramp":
+      return `Take the ramp${direction ? ` on the ${direction}` : ""}${onto}`;
+    case "off ramp":
+      return `Take the exit${direction ? ` on the ${direction}` : ""}${onto}`;
+    case "end of road":
+      return `Turn ${direction || "straight"} at the end of the road${onto}`;
+    case "continue":
+    case "new name":
+      return direction && direction !== "straight" ? `Continue ${direction}${onto}` : `Continue${onto}`;
+    default:
+      // "turn" and any maneuver types added to OSRM later
+      if (!direction || direction === "straight") {
+        return `Go straight${onto}`;
+      }
+      if (direction === "uturn") {
+        return `Make a U-turn${onto}`;
+      }
+      if (direction.startsWith("slight ")) {
+        return `Bear ${direction.slice("slight ".length)}${onto}`;
+      }
+      return `Turn ${direction}${onto}`;
+  }
+}
+
+function compassDirection(bearing: number): string {
+  const directions = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+  return directions[Math.round(bearing / 45) % 8];
+}
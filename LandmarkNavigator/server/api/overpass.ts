@@ -0,0 +1,68 @@
+import axios from "axios";
+import { MapBounds } from "@/types";
+import { RateLimitedQueue } from "../queue";
+
+// Any Overpass-compatible endpoint can be used, e.g. a private instance for heavier traffic
+const OVERPASS_API_URL = process.env.OVERPASS_API_URL || "https://overpass-api.de/api/interpreter";
+const OVERPASS_MIN_INTERVAL = Number(process.env.OVERPASS_MIN_INTERVAL_MS) || 500;
+const MAX_PENDING_REQUESTS = 100;
+const MAX_ELEMENTS = 100; // Points of interest returned per query
+const QUERY_TIMEOUT = 25; // Seconds the Overpass server may spend on a query
+const REQUEST_TIMEOUT = (QUERY_TIMEOUT + 5) * 1000; // ms to wait for the response, including transfer
+const USER_AGENT = "LandmarkExplorer/1.0";
+
+// Overpass servers allow few concurrent queries per client, so run them one at a time
+const overpassQueue = new RateLimitedQueue(OVERPASS_MIN_INTERVAL, MAX_PENDING_REQUESTS, REQUEST_TIMEOUT);
+
+export interface OverpassElement {
+  type: "node" | "way" | "relation";
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+/**
+ * Fetch named tourist attractions and historic sites within the given bounds
+ */
+export async function fetchPointsOfInterest(bounds: MapBounds): Promise<OverpassElement[]> {
+  const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+  const query = `
+    [out:json][timeout:${QUERY_TIMEOUT}];
+    (
+      nwr["tourism"="attraction"]["name"](${bbox});
+      nwr["historic"]["name"](${bbox});
+    );
+    out center tags ${MAX_ELEMENTS};
+  `;
+
+  try {
+    const response = await overpassQueue.schedule((signal) =>
+      axios.post(OVERPASS_API_URL, new URLSearchParams({ data: query }).toString(), {
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": USER_AGENT,
+        },
+        timeout: REQUEST_TIMEOUT,
+        signal,
+      })
+    );
+
+    return response.data?.elements ?? [];
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error fetching points of interest from Overpass:", error.message);
+    } else {
+      console.error("Error fetching points of interest from Overpass:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Link to an element on openstreetmap.org
+ */
+export function osmElementUrl(element: OverpassElement): string {
+  return `https://www.openstreetmap.org/${element.type}/${element.id}`;
+}
@@ -0,0 +1,68 @@
+import axios from "axios";
+import { GeocodeResult } from "@/types";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
+
+// Any Photon-compatible server can be used, e.g. a self-hosted instance
+const PHOTON_BASE_URL = process.env.PHOTON_BASE_URL || "https://photon.komoot.io";
+const PHOTON_LANGUAGES = ["en", "de", "fr", "it"]; // Languages the public Photon instance supports
+const USER_AGENT = "LandmarkExplorer/1.0";
+
+/**
+ * Search for places by name with Photon. Aborting the signal cancels the request.
+ */
+export async function searchPhoton(
+  query: string,
+  lang: string = DEFAULT_LANGUAGE,
+  limit: number = 5,
+  signal?: AbortSignal
+): Promise<GeocodeResult[]> {
+  try {
+    const response = await axios.get(`${PHOTON_BASE_URL}/api`, {
+      params: {
+        q: query,
+        limit,
+        // Photon rejects unsupported languages, so fall back to its default (local names)
+        lang: PHOTON_LANGUAGES.includes(lang) ? lang : undefined,
+      },
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+      signal,
+    });
+
+    return (response.data?.features ?? []).map((feature: any) => {
+      const [lon, lat] = feature.geometry.coordinates;
+      const properties = feature.properties ?? {};
+      const name = [properties.name, properties.city, properties.state, properties.country]
+        .filter((part, index, parts) => part && parts.indexOf(part) === index)
+        .join(", ");
+
+      return {
+        lat,
+        lon,
+        display_name: name,
+        type: properties.osm_value || properties.type || "place",
+        source: "photon" as const,
+        // Photon orders the extent as [west, north, east, south]
+        boundingbox: properties.extent
+          ? {
+              west: properties.extent[0],
+              north: properties.extent[1],
+              east: properties.extent[2],
+              south: properties.extent[3],
+            }
+          : undefined,
+      };
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error; // Given up on by the caller, nothing to report
+    }
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error searching Photon:", error.message);
+    } else {
+      console.error("Error searching Photon:", error);
+    }
+    throw error;
+  }
+}
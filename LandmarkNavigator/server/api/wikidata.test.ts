@@ -0,0 +1,141 @@
+import axios from "axios";
+import entitiesFixture from "./__fixtures__/wikidata/entities.json";
+import labelsFixture from "./__fixtures__/wikidata/labels.json";
+import { WikidataEntity, fetchWikidataDetails, formatWikidataTime, mapClaimsToFacts } from "./wikidata";
+
+const entities = entitiesFixture.data.entities as unknown as Record<string, WikidataEntity>;
+
+// Labels of the items the fixture entities refer to, as fetchWikidataLabels returns them
+const labels = new Map(
+  Object.values<any>(labelsFixture.data.entities)
+    .filter((entity) => entity.labels?.en)
+    .map((entity) => [entity.id, entity.labels.en.value])
+);
+
+describe("mapClaimsToFacts", () => {
+  it("maps every supported property in display order", () => {
+    expect(mapClaimsToFacts(entities.Q243, labels)).toEqual([
+      { type: "date", label: "Built", value: "31 March 1889" },
+      { type: "person", label: "Architect", value: "Stephen Sauvestre, Maurice Koechlin" },
+      { type: "measurement", label: "Height", value: "330 m" },
+      { type: "heritage", label: "Heritage designation", value: "monument historique classé" },
+      { type: "website", label: "Official website", value: "https://www.toureiffel.paris/" },
+    ]);
+  });
+
+  it("prefers claims of preferred rank", () => {
+    const built = mapClaimsToFacts(entities.Q243, labels).find((fact) => fact.label === "Built");
+
+    // The normal-rank start of construction (1887) loses to the preferred opening date
+    expect(built?.value).toBe("31 March 1889");
+  });
+
+  it("skips deprecated claims", () => {
+    const facts = mapClaimsToFacts(entities.Q243, labels);
+    const heritage = mapClaimsToFacts(entities.Q10288, labels).find((fact) => fact.type === "heritage");
+
+    expect(facts.find((fact) => fact.type === "measurement")?.value).toBe("330 m");
+    expect(heritage?.value).toBe("World Heritage Site");
+  });
+
+  it("formats quantities with their unit symbol", () => {
+    const height = (id: string) =>
+      mapClaimsToFacts(entities[id], labels).find((fact) => fact.type === "measurement")?.value;
+
+    expect(height("Q243")).toBe("330 m");
+    expect(height("Q9188")).toBe("1,454 ft");
+    expect(height("Q2981")).toBe("69"); // Dimensionless, no unit to show
+  });
+
+  it("keeps only the first value of single-valued facts", () => {
+    const website = mapClaimsToFacts(entities.Q9188, labels).find((fact) => fact.type === "website");
+
+    expect(website?.value).toBe("https://www.esbnyc.com/");
+  });
+
+  it("resolves items to their labels, dropping unknown values and items without a label", () => {
+    const facts = mapClaimsToFacts(entities.Q10288, labels);
+
+    // "Unknown value" architects are left out
+    expect(facts.find((fact) => fact.type === "person")?.value).toBe("Ictinus, Callicrates");
+    // A designation whose item has no label is left out
+    expect(mapClaimsToFacts(entities.Q39671, labels).find((fact) => fact.type === "heritage")?.value)
+      .toBe("World Heritage Site");
+    // "No value" means no architect fact at all
+    expect(mapClaimsToFacts(entities.Q39671, labels).some((fact) => fact.type === "person")).toBe(false);
+  });
+
+  it("formats dates of every precision, including BC", () => {
+    const built = (id: string) => mapClaimsToFacts(entities[id], labels).find((fact) => fact.type === "date")?.value;
+
+    expect(built("Q9188")).toBe("17 March 1930");
+    expect(built("Q10288")).toBe("447 BC");
+    expect(built("Q2981")).toBe("1160s");
+    expect(built("Q39671")).toBe("30th century BC");
+  });
+
+  it("returns no facts for an entity without claims", () => {
+    expect(mapClaimsToFacts({ id: "Q1" }, labels)).toEqual([]);
+  });
+});
+
+describe("formatWikidataTime", () => {
+  it.each([
+    ["+1889-03-31T00:00:00Z", 11, "31 March 1889"],
+    ["+1889-03-00T00:00:00Z", 10, "March 1889"],
+    ["+1889-00-00T00:00:00Z", 9, "1889"],
+    ["+1889-00-00T00:00:00Z", 8, "1880s"],
+    ["+1889-00-00T00:00:00Z", 7, "19th century"],
+    ["+1901-00-00T00:00:00Z", 7, "20th century"],
+    ["+1900-00-00T00:00:00Z", 7, "19th century"],
+    ["+2001-00-00T00:00:00Z", 7, "21st century"],
+    ["+1201-00-00T00:00:00Z", 7, "13th century"],
+    ["-0447-00-00T00:00:00Z", 9, "447 BC"],
+    ["-0447-00-00T00:00:00Z", 8, "440s BC"],
+    ["-3000-00-00T00:00:00Z", 7, "30th century BC"],
+    ["-0044-03-15T00:00:00Z", 11, "15 March 44 BC"],
+  ])("formats %s at precision %i as %s", (time, precision, expected) => {
+    expect(formatWikidataTime(time, precision)).toBe(expected);
+  });
+
+  it("falls back to the year when the day or month is unknown", () => {
+    expect(formatWikidataTime("+1889-00-00T00:00:00Z", 11)).toBe("1889");
+    expect(formatWikidataTime("+1889-00-00T00:00:00Z", 10)).toBe("1889");
+  });
+
+  it("rejects malformed times", () => {
+    expect(formatWikidataTime("1889", 9)).toBeNull();
+  });
+});
+
+describe("fetchWikidataDetails", () => {
+  let getSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    getSpy = jest.spyOn(axios, "get").mockImplementation(async (_url, config?: { params?: any }) => ({
+      data: config?.params?.props === "labels" ? labelsFixture.data : entitiesFixture.data,
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("resolves the labels of referenced items in one request", async () => {
+    const details = await fetchWikidataDetails(Object.keys(entities), "en");
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+    const labelParams = getSpy.mock.calls[1][1].params;
+    expect(labelParams.ids.split("|").sort()).toEqual(
+      ["Q778243", "Q3262829", "Q916333", "Q192214", "Q721164", "Q9259", "Q99999999"].sort()
+    );
+    expect(details.get("Q243")!.facts).toEqual(mapClaimsToFacts(entities.Q243, labels));
+  });
+
+  it("reports classes and sitelink counts", async () => {
+    const details = await fetchWikidataDetails(Object.keys(entities), "en");
+
+    expect(details.get("Q243")).toMatchObject({ instanceOf: ["Q1440476", "Q2319498"], sitelinks: 3 });
+    expect(details.get("Q2981")).toMatchObject({ instanceOf: [], sitelinks: 0 });
+  });
+});
@@ -0,0 +1,290 @@
+import axios from "axios";
+import { LandmarkFact } from "@/types";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
+
+const WIKIDATA_API_URL = "https://www.wikidata.org/w/api.php";
+const ENTITIES_BATCH_SIZE = 50; // wbgetentities accepts at most 50 IDs per request
+const USER_AGENT = "LandmarkExplorer/1.0";
+const INSTANCE_OF = "P31";
+
+// Units Wikidata quantities are commonly given in, by unit item ID
+const UNIT_SYMBOLS: Record<string, string> = {
+  Q11573: "m",
+  Q828224: "km",
+  Q174728: "cm",
+  Q3710: "ft",
+  Q25343: "m²",
+  Q712226: "km²",
+};
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export interface WikidataEntity {
+  id: string;
+  claims?: Record<string, WikidataClaim[]>;
+  sitelinks?: Record<string, unknown>;
+}
+
+export interface WikidataClaim {
+  rank?: "preferred" | "normal" | "deprecated";
+  mainsnak: {
+    snaktype: string;
+    datatype?: string;
+    datavalue?: {
+      type: string;
+      value: any;
+    };
+  };
+}
+
+interface FactMapping {
+  property: string;
+  type: string;
+  label: string;
+}
+
+/**
+ * Wikidata properties turned into landmark facts, in display order
+ */
+export const FACT_MAPPINGS: FactMapping[] = [
+  { property: "P571", type: "date", label: "Built" }, // inception
+  { property: "P84", type: "person", label: "Architect" },
+  { property: "P2048", type: "measurement", label: "Height" },
+  { property: "P1435", type: "heritage", label: "Heritage designation" },
+  { property: "P856", type: "website", label: "Official website" },
+];
+
+/**
+ * Fetch Wikidata entities by ID, batching requests
+ */
+export async function fetchWikidataEntities(
+  ids: string[],
+  props: string = "claims"
+): Promise<Map<string, WikidataEntity>> {
+  const entities = new Map<string, WikidataEntity>();
+
+  for (let i = 0; i < ids.length; i += ENTITIES_BATCH_SIZE) {
+    const batch = ids.slice(i, i + ENTITIES_BATCH_SIZE);
+
+    try {
+      const response = await axios.get(WIKIDATA_API_URL, {
+        params: {
+          action: "wbgetentities",
+          ids: batch.join("|"),
+          props,
+          format: "json",
+          origin: "*",
+        },
+        headers: {
+          "User-Agent": USER_AGENT,
+        },
+      });
+
+      Object.values<WikidataEntity>(response.data?.entities ?? {}).forEach((entity) => {
+        if (entity.id) {
+          entities.set(entity.id, entity);
+        }
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error("Axios error fetching Wikidata entities:", error.message);
+      } else {
+        console.error("Error fetching Wikidata entities:", error);
+      }
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Fetch labels for Wikidata items in the given language, falling back to other languages
+ */
+export async function fetchWikidataLabels(
+  ids: string[],
+  lang: string = DEFAULT_LANGUAGE
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+
+  for (let i = 0; i < ids.length; i += ENTITIES_BATCH_SIZE) {
+    const batch = ids.slice(i, i + ENTITIES_BATCH_SIZE);
+
+    try {
+      const response = await axios.get(WIKIDATA_API_URL, {
+        params: {
+          action: "wbgetentities",
+          ids: batch.join("|"),
+          props: "labels",
+          languages: lang,
+          languagefallback: 1,
+          format: "json",
+          origin: "*",
+        },
+        headers: {
+          "User-Agent": USER_AGENT,
+        },
+      });
+
+      Object.values<any>(response.data?.entities ?? {}).forEach((entity) => {
+        const label = entity.labels?.[lang]?.value ?? Object.values<any>(entity.labels ?? {})[0]?.value;
+        if (entity.id && label) {
+          labels.set(entity.id, label);
+        }
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error("Axios error fetching Wikidata labels:", error.message);
+      } else {
+        console.error("Error fetching Wikidata labels:", error);
+      }
+    }
+  }
+
+  return labels;
+}
+
+export interface WikidataDetails {
+  facts: LandmarkFact[];
+  instanceOf: string[]; // Classes the item is an instance of (P31)
+  sitelinks: number; // Number of wiki pages about the item, across languages and projects
+}
+
+/**
+ * Fetch facts, classes and sitelink counts for the given Wikidata items, keyed by item ID
+ */
+export async function fetchWikidataDetails(
+  ids: string[],
+  lang: string = DEFAULT_LANGUAGE
+): Promise<Map<string, WikidataDetails>> {
+  const entities = await fetchWikidataEntities(ids, "claims|sitelinks");
+
+  // Resolve the labels of every item a fact refers to (architects, designations, ...)
+  const referencedIds = new Set<string>();
+  entities.forEach((entity) => {
+    FACT_MAPPINGS.forEach(({ property }) => {
+      getClaimValues(entity, property).forEach((value) => {
+        if (value?.["entity-type"] === "item" && value.id) {
+          referencedIds.add(value.id);
+        }
+      });
+    });
+  });
+  const labels = await fetchWikidataLabels(Array.from(referencedIds), lang);
+
+  const detailsById = new Map<string, WikidataDetails>();
+  entities.forEach((entity, id) => {
+    detailsById.set(id, {
+      facts: mapClaimsToFacts(entity, labels),
+      instanceOf: getClaimValues(entity, INSTANCE_OF)
+        .map((value) => value?.id)
+        .filter((classId): classId is string => !!classId),
+      sitelinks: Object.keys(entity.sitelinks ?? {}).length,
+    });
+  });
+  return detailsById;
+}
+
+/**
+ * Turn the claims of an entity into typed landmark facts using FACT_MAPPINGS
+ */
+export function mapClaimsToFacts(
+  entity: WikidataEntity,
+  labels: Map<string, string>
+): LandmarkFact[] {
+  const facts: LandmarkFact[] = [];
+
+  FACT_MAPPINGS.forEach(({ property, type, label }) => {
+    const values = getClaimValues(entity, property)
+      .map((value) => formatClaimValue(value, labels))
+      .filter((value): value is string => !!value);
+
+    if (values.length > 0) {
+      // Dates, heights and websites have one meaningful value; people and designations can list several
+      const value = type === "person" || type === "heritage" ? values.join(", ") : values[0];
+      facts.push({ type, label, value });
+    }
+  });
+
+  return facts;
+}
+
+/**
+ * Values of the usable claims for a property, preferred rank first and deprecated ones dropped
+ */
+function getClaimValues(entity: WikidataEntity, property: string): any[] {
+  const claims = (entity.claims?.[property] ?? []).filter(
+    (claim) => claim.rank !== "deprecated" && claim.mainsnak.snaktype === "value"
+  );
+  const preferred = claims.filter((claim) => claim.rank === "preferred");
+
+  return (preferred.length > 0 ? preferred : claims).map((claim) => claim.mainsnak.datavalue?.value);
+}
+
+/**
+ * Format a single claim value for display
+ */
+function formatClaimValue(value: any, labels: Map<string, string>): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value === "string") {
+    return value; // URLs and plain strings
+  }
+
+  if (value["entity-type"] === "item") {
+    return labels.get(value.id) ?? null;
+  }
+
+  if (typeof value.time === "string") {
+    return formatWikidataTime(value.time, value.precision);
+  }
+
+  if (typeof value.amount === "string") {
+    const amount = Number(value.amount);
+    const unitId = typeof value.unit === "string" ? value.unit.split("/").pop() : undefined;
+    const symbol = unitId ? UNIT_SYMBOLS[unitId] : undefined;
+    return symbol ? `${amount.toLocaleString("en-US")} ${symbol}` : amount.toLocaleString("en-US");
+  }
+
+  return null;
+}
+
+/**
+ * Format a Wikidata time value (e.g. "+1889-03-31T00:00:00Z") at its stated precision
+ */
+export function formatWikidataTime(time: string, precision: number = 9): string | null {
+  const match = /^([+-])(\d+)-(\d{2})-(\d{2})/.exec(time);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, yearText, monthText, dayText] = match;
+  const year = Number(yearText);
+  const era = sign === "-" ? " BC" : "";
+  const month = Number(monthText);
+  const day = Number(dayText);
+
+  if (precision >= 11 && month > 0 && day > 0) {
+    return `${day} ${MONTH_NAMES[month - 1]} ${year}${era}`;
+  }
+  if (precision === 10 && month > 0) {
+    return `${MONTH_NAMES[month - 1]} ${year}${era}`;
+  }
+  if (precision === 8) {
+    return `${Math.floor(year / 10) * 10}s${era}`;
+  }
+  if (precision === 7) {
+    return `${ordinal(Math.floor((year - 1) / 100) + 1)} century${era}`;
+  }
+  return `${year}${era}`;
+}
+
+function ordinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
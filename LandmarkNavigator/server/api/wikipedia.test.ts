@@ -0,0 +1,198 @@
+import axios from "axios";
+import { fetchLandmarkDetails, fetchLandmarkDetailsBatch, fetchLandmarks } from "./wikipedia";
+
+// Hand-written stand-ins for query API pages, with only the fields the code reads
+const eiffelTower = {
+  pageid: 9232,
+  ns: 0,
+  title: "Eiffel Tower",
+  length: 4000,
+  extract: "Eiffel Tower is a landmark in Paris, France.",
+  thumbnail: { source: "https://upload.wikimedia.org/eiffel-tower.jpg", width: 500, height: 375 },
+  pageprops: { wikibase_item: "Q243" },
+  categories: [{ ns: 14, title: "Category:Landmarks in Paris" }],
+  pageviews: { "2024-04-01": 101, "2024-04-02": null, "2024-04-03": 103 }, // No data for a day
+};
+
+const page = (pageid: number, title: string) => ({
+  pageid,
+  ns: 0,
+  title,
+  extract: `${title} is a landmark in Paris, France.`,
+});
+
+// A full geosearch page of 50 results: batches of 20, 20 and 10 page IDs
+const pages: any[] = [
+  eiffelTower,
+  ...Array.from({ length: 49 }, (_, i) => page(1001 + i, `Landmark ${i + 1}`)),
+];
+// In the third batch: left out of its response, and reported missing in it
+const droppedPageId = 1045;
+const missingPageId = 1046;
+pages[pages.findIndex((candidate) => candidate.pageid === missingPageId)] = {
+  pageid: missingPageId,
+  ns: 0,
+  title: "Gare Saint-Lazare",
+  missing: "",
+};
+
+const pageIds = pages.map((candidate) => candidate.pageid);
+const pagesById = new Map(pages.map((candidate) => [candidate.pageid, candidate]));
+
+let getSpy: jest.SpyInstance;
+
+/**
+ * Answer Wikipedia API requests from the pages above, failing requests for the given page IDs
+ */
+function fakeApi(failingPageIds: string[] = []) {
+  getSpy.mockImplementation(async (_url: string, config?: { params?: Record<string, unknown> }) => {
+    const params = config?.params ?? {};
+    if (params.list === "geosearch") {
+      const geosearch = pages.map(({ pageid, title }, i) => ({ pageid, ns: 0, title, lat: 48.85, lon: 2.29, dist: 10 * i, primary: "" }));
+      return { data: { batchcomplete: "", query: { geosearch } } };
+    }
+    if (failingPageIds.includes(String(params.pageids))) {
+      throw new Error("socket hang up");
+    }
+    const ids = String(params.pageids).split("|").map(Number);
+    const returned = ids.length > 1 ? ids.filter((id) => id !== droppedPageId) : ids;
+    return { data: { batchcomplete: "", query: { pages: Object.fromEntries(returned.map((id) => [id, pagesById.get(id)])) } } };
+  });
+}
+
+const countRequests = (predicate: (params: Record<string, unknown>) => boolean) =>
+  getSpy.mock.calls.filter(([, config]) => predicate(config.params)).length;
+
+beforeEach(() => {
+  getSpy = jest.spyOn(axios, "get");
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  fakeApi();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("fetchLandmarkDetailsBatch", () => {
+  it("enriches a full geosearch page of 50 results in 3 batched requests plus fallbacks", async () => {
+    const landmarks = await fetchLandmarks(48.87, 48.84, 2.32, 2.27);
+    expect(landmarks).toHaveLength(50);
+    getSpy.mockClear();
+
+    const details = await fetchLandmarkDetailsBatch(landmarks.map((landmark) => landmark.pageid));
+
+    // Batches of 20, 20 and 10 page IDs, then one request for each page a batch did not return
+    expect(countRequests((params) => String(params.pageids).includes("|"))).toBe(3);
+    expect(countRequests((params) => !String(params.pageids).includes("|"))).toBe(2);
+    expect(getSpy).toHaveBeenCalledTimes(5);
+    expect(details.size).toBe(50);
+  });
+
+  it("needs far fewer requests than fetching each page's details", async () => {
+    await Promise.all(pageIds.map((pageId) => fetchLandmarkDetails(pageId).catch(() => null)));
+    const perPageRequests = getSpy.mock.calls.length;
+    getSpy.mockClear();
+
+    await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(perPageRequests).toBe(50);
+    expect(getSpy.mock.calls.length).toBe(5);
+  });
+
+  it("maps the batched page data to landmark details", async () => {
+    const details = await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(details.get(9232)).toEqual({
+      pageid: 9232,
+      title: "Eiffel Tower",
+      extract: "Eiffel Tower is a landmark in Paris, France.",
+      thumbnail: { source: "https://upload.wikimedia.org/eiffel-tower.jpg", width: 500, height: 375 },
+      wikibaseItem: "Q243",
+      categories: ["Category:Landmarks in Paris"],
+      length: 4000,
+      pageviews: 204,
+    });
+  });
+
+  it("follows continue until every page has all of its properties", async () => {
+    const champDeMars = page(1001, "Champ de Mars");
+    // Extracts and categories split across two responses, as the API does for large batches
+    getSpy.mockImplementation(async (_url: string, config: { params: Record<string, unknown> }) => {
+      if (config.params.excontinue === undefined) {
+        return {
+          data: {
+            continue: { excontinue: 1, clcontinue: "9232|Monuments_in_Paris", continue: "||pageimages|pageprops|info|pageviews" },
+            query: { pages: { 9232: eiffelTower, 1001: { ...champDeMars, extract: undefined } } },
+          },
+        };
+      }
+      return {
+        data: {
+          batchcomplete: "",
+          query: {
+            pages: {
+              9232: { pageid: 9232, ns: 0, title: "Eiffel Tower", categories: [{ ns: 14, title: "Category:Monuments in Paris" }] },
+              1001: champDeMars,
+            },
+          },
+        },
+      };
+    });
+
+    const details = await fetchLandmarkDetailsBatch([9232, 1001]);
+
+    expect(getSpy).toHaveBeenCalledTimes(2);
+    expect(getSpy).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({
+      params: expect.objectContaining({ pageids: "9232|1001", excontinue: 1, clcontinue: "9232|Monuments_in_Paris" }),
+    }));
+    expect(details.get(9232)).toMatchObject({
+      extract: eiffelTower.extract,
+      categories: ["Category:Landmarks in Paris", "Category:Monuments in Paris"],
+      pageviews: 204,
+    });
+    expect(details.get(1001)?.extract).toBe(champDeMars.extract);
+  });
+
+  it("fetches pages left out of a batch response one by one", async () => {
+    const details = await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(getSpy).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      params: expect.objectContaining({ pageids: droppedPageId }),
+    }));
+    expect(details.get(droppedPageId)?.extract).toBe("Landmark 45 is a landmark in Paris, France.");
+  });
+
+  it("retries pages reported missing in a batch on their own", async () => {
+    const details = await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(getSpy).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      params: expect.objectContaining({ pageids: missingPageId }),
+    }));
+    expect(details.get(missingPageId)).toMatchObject({ pageid: missingPageId, title: "Gare Saint-Lazare" });
+    expect(details.get(missingPageId)?.extract).toBeUndefined();
+  });
+
+  it("falls back to per-page requests for a batch that fails", async () => {
+    const secondBatch = pageIds.slice(20, 40);
+    fakeApi([secondBatch.join("|")]);
+
+    const details = await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(getSpy).toHaveBeenCalledTimes(3 + 20 + 2);
+    expect(secondBatch.every((pageId) => details.get(pageId)?.extract)).toBe(true);
+  });
+
+  it("leaves out pages whose fallback request fails too", async () => {
+    fakeApi([String(droppedPageId)]);
+
+    const details = await fetchLandmarkDetailsBatch(pageIds);
+
+    expect(details.has(droppedPageId)).toBe(false);
+    expect(details.size).toBe(49);
+  });
+
+  it("makes no requests for no pages", async () => {
+    expect((await fetchLandmarkDetailsBatch([])).size).toBe(0);
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,21 @@
-import axios from "axios";
-import { WikiGeosearchResult, WikiLandmarkDetails, Landmark } from "@/types";
+import axios, { AxiosResponse } from "axios";
+import { WikiGeosearchResult, WikiLandmarkDetails, WikiLangLink, Landmark } from "@/types";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
 
-const WIKIPEDIA_API_URL = "https://en.wikipedia.org/w/api.php";
+// Any MediaWiki server can be used. "{lang}" in the URL is replaced by the language code,
+// for deployments that run one site per language edition like wikipedia.org
+const WIKIPEDIA_BASE_URL = process.env.WIKIPEDIA_BASE_URL || "https://{lang}.wikipedia.org";
 const MAX_RADIUS = 10000; // Maximum radius in meters for geosearch
+const DETAILS_BATCH_SIZE = 20; // TextExtracts returns at most 20 intro extracts per request
+const PAGEVIEW_DAYS = 30; // Days of page views summed for notability
+const MAX_CONTINUE_REQUESTS = 10; // Requests per query before giving up on the rest of its results
+
+/**
+ * API endpoint of a Wikipedia language edition
+ */
+function wikipediaApiUrl(lang: string): string {
+  return `${WIKIPEDIA_BASE_URL.replace("{lang}", lang)}/w/api.php`;
+}
 
 /**
  * Fetch landmarks within the given map bounds from Wikipedia API
@@ -11,7 +24,8 @@ export async function fetchLandmarks(
   north: number,
   south: number,
   east: number,
-  west: number
+  west: number,
+  lang: string = DEFAULT_LANGUAGE
 ): Promise<Landmark[]> {
   try {
     // Validate input bounds
@@ -23,17 +37,14 @@ export async function fetchLandmarks(
     const centerLat = (north + south) / 2;
     const centerLon = (east + west) / 2;
 
-    // Calculate radius in meters (approximate)
+    // Calculate radius in meters so the circle reaches the corners of the bounds
     const radius = Math.min(
-      Math.max(
-        haversineDistance(centerLat, centerLon, north, centerLon),
-        haversineDistance(centerLat, centerLon, centerLat, east)
-      ) * 1000,
+      haversineDistance(centerLat, centerLon, north, east) * 1000,
       MAX_RADIUS
     );
 
     // Fetch landmarks from Wikipedia's geosearch
-    const response = await axios.get(WIKIPEDIA_API_URL, {
+    const response = await axios.get(wikipediaApiUrl(lang), {
       params: {
         action: "query",
         list: "geosearch",
@@ -55,6 +66,8 @@ export async function fetchLandmarks(
         lat: result.lat,
         lon: result.lon,
         distance: result.dist / 1000, // Convert meters to km
+        lang,
+        source: "wikipedia" as const,
       }));
     }
 
@@ -70,32 +83,127 @@ export async function fetchLandmarks(
 }
 
 /**
- * Fetch additional details for a specific landmark
+ * Fetch a single page as a landmark, or null if it does not exist or has no coordinates
  */
-export async function fetchLandmarkDetails(pageId: number): Promise<WikiLandmarkDetails> {
+export async function fetchLandmark(
+  pageId: number,
+  lang: string = DEFAULT_LANGUAGE
+): Promise<Landmark | null> {
   try {
-    const response = await axios.get(WIKIPEDIA_API_URL, {
+    const response = await axios.get(wikipediaApiUrl(lang), {
       params: {
         action: "query",
         pageids: pageId,
-        prop: "extracts|pageimages",
-        exintro: true,
-        explaintext: true,
-        piprop: "thumbnail",
-        pithumbsize: 500,
+        prop: "coordinates",
         format: "json",
         origin: "*",
       },
     });
 
-    if (response.data?.query?.pages?.[pageId]) {
-      const page = response.data.query.pages[pageId];
-      return {
-        pageid: page.pageid,
-        title: page.title,
-        extract: page.extract,
-        thumbnail: page.thumbnail,
-      };
+    const page = response.data?.query?.pages?.[pageId];
+    const coords = page?.coordinates?.[0];
+    if (!page || page.missing !== undefined || !coords) {
+      return null;
+    }
+
+    return {
+      pageid: pageId,
+      title: page.title,
+      lat: coords.lat,
+      lon: coords.lon,
+      lang,
+      source: "wikipedia",
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error(`Axios error fetching page ${pageId}:`, error.message);
+    } else {
+      console.error(`Error fetching page ${pageId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a page query, following `continue` until every page has all of the requested properties.
+ * Each response can carry only part of them (e.g. the first 20 extracts, or the first 500
+ * categories across the pages), so the pages are merged as they come in.
+ */
+async function queryPages(lang: string, params: Record<string, unknown>): Promise<Record<string, any>> {
+  const pages: Record<string, any> = {};
+  let continueParams: Record<string, unknown> | undefined = {};
+
+  for (let request = 0; continueParams && request < MAX_CONTINUE_REQUESTS; request++) {
+    const response: AxiosResponse = await axios.get(wikipediaApiUrl(lang), { params: { ...params, ...continueParams } });
+    Object.entries<any>(response.data?.query?.pages ?? {}).forEach(([pageId, page]) => {
+      pages[pageId] = mergePage(pages[pageId], page);
+    });
+    continueParams = response.data?.continue;
+  }
+
+  return pages;
+}
+
+/**
+ * Combine the parts of a page returned by successive responses to a continued query
+ */
+function mergePage(existing: any, page: any): any {
+  if (!existing) {
+    return page;
+  }
+  return {
+    ...existing,
+    ...page,
+    categories: existing.categories || page.categories ? [...(existing.categories ?? []), ...(page.categories ?? [])] : undefined,
+    pageviews: existing.pageviews || page.pageviews ? { ...existing.pageviews, ...page.pageviews } : undefined,
+  };
+}
+
+/**
+ * Pick the landmark details out of a page returned by the query API
+ */
+function toLandmarkDetails(page: any): WikiLandmarkDetails {
+  return {
+    pageid: page.pageid,
+    title: page.title,
+    extract: page.extract,
+    thumbnail: page.thumbnail,
+    wikibaseItem: page.pageprops?.wikibase_item,
+    categories: page.categories?.map((category: { title: string }) => category.title),
+    length: page.length,
+    // Daily views are null for days without data
+    pageviews: page.pageviews
+      ? Object.values<number | null>(page.pageviews).reduce<number>((sum, views) => sum + (views ?? 0), 0)
+      : undefined,
+  };
+}
+
+/**
+ * Fetch additional details for a specific landmark
+ */
+export async function fetchLandmarkDetails(
+  pageId: number,
+  lang: string = DEFAULT_LANGUAGE
+): Promise<WikiLandmarkDetails> {
+  try {
+    const pages = await queryPages(lang, {
+      action: "query",
+      pageids: pageId,
+      prop: "extracts|pageimages|pageprops|categories|info|pageviews",
+      exintro: true,
+      explaintext: true,
+      piprop: "thumbnail",
+      pithumbsize: 500,
+      ppprop: "wikibase_item",
+      clshow: "!hidden",
+      cllimit: "max",
+      pvipdays: PAGEVIEW_DAYS,
+      format: "json",
+      origin: "*",
+    });
+
+    if (pages[pageId]) {
+      return toLandmarkDetails(pages[pageId]);
     }
 
     return { pageid: pageId, title: "" };
@@ -110,63 +218,173 @@ export async function fetchLandmarkDetails(pageId: number): Promise<WikiLandmark
 }
 
 /**
- * Search Wikipedia for a location
+ * Fetch details for many landmarks at once, batching page IDs into as few requests as possible.
+ * Pages missing from a batch response (or from a failed batch) are fetched one by one.
  */
-export async function searchWikipedia(query: string): Promise<WikiGeosearchResult[]> {
+export async function fetchLandmarkDetailsBatch(
+  pageIds: number[],
+  lang: string = DEFAULT_LANGUAGE
+): Promise<Map<number, WikiLandmarkDetails>> {
+  const detailsById = new Map<number, WikiLandmarkDetails>();
+
+  for (let i = 0; i < pageIds.length; i += DETAILS_BATCH_SIZE) {
+    const batch = pageIds.slice(i, i + DETAILS_BATCH_SIZE);
+
+    try {
+      const pages = await queryPages(lang, {
+        action: "query",
+        pageids: batch.join("|"),
+        prop: "extracts|pageimages|pageprops|categories|info|pageviews",
+        exintro: true,
+        explaintext: true,
+        exlimit: "max",
+        piprop: "thumbnail",
+        pithumbsize: 500,
+        pilimit: "max",
+        ppprop: "wikibase_item",
+        clshow: "!hidden", // Skip maintenance categories
+        cllimit: "max",
+        pvipdays: PAGEVIEW_DAYS,
+        format: "json",
+        origin: "*",
+      });
+
+      batch.forEach((pageId) => {
+        const page = pages[pageId];
+        if (page && page.missing === undefined) { // The API marks missing pages with `missing: ""`
+          detailsById.set(pageId, toLandmarkDetails(page));
+        }
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        console.error("Axios error fetching batched landmark details:", error.message);
+      } else {
+        console.error("Error fetching batched landmark details:", error);
+      }
+    }
+  }
+
+  // Fall back to per-page requests for anything the batches did not return
+  const missingIds = pageIds.filter((pageId) => !detailsById.has(pageId));
+  await Promise.all(
+    missingIds.map(async (pageId) => {
+      try {
+        detailsById.set(pageId, await fetchLandmarkDetails(pageId, lang));
+      } catch {
+        // Already logged by fetchLandmarkDetails
+      }
+    })
+  );
+
+  return detailsById;
+}
+
+/**
+ * Fetch links to the same article in other Wikipedia language editions
+ */
+export async function fetchLangLinks(
+  pageId: number,
+  lang: string = DEFAULT_LANGUAGE
+): Promise<WikiLangLink[]> {
+  try {
+    const response = await axios.get(wikipediaApiUrl(lang), {
+      params: {
+        action: "query",
+        pageids: pageId,
+        prop: "langlinks",
+        llprop: "url|autonym",
+        lllimit: "max",
+        format: "json",
+        origin: "*",
+      },
+    });
+
+    const langLinks = response.data?.query?.pages?.[pageId]?.langlinks ?? [];
+    return langLinks.map((link: { lang: string; url: string; autonym?: string; "*": string }) => ({
+      lang: link.lang,
+      title: link["*"],
+      url: link.url,
+      autonym: link.autonym,
+    }));
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error(`Axios error fetching language links for page ${pageId}:`, error.message);
+    } else {
+      console.error(`Error fetching language links for page ${pageId}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Search Wikipedia for locations, returning geotagged results in search relevance order.
+ * Aborting the signal cancels the requests.
+ */
+export async function searchWikipedia(
+  query: string,
+  lang: string = DEFAULT_LANGUAGE,
+  limit: number = 5,
+  signal?: AbortSignal
+): Promise<WikiGeosearchResult[]> {
   try {
     if (!query || query.trim().length === 0) {
       throw new Error("Search query cannot be empty.");
     }
 
-    // First search for the page
-    const searchResponse = await axios.get(WIKIPEDIA_API_URL, {
+    // First search for the pages
+    const searchResponse = await axios.get(wikipediaApiUrl(lang), {
       params: {
         action: "query",
         list: "search",
         srsearch: query,
-        srlimit: 5,
+        srlimit: limit,
         format: "json",
         origin: "*",
       },
+      signal,
     });
 
-    if (!searchResponse.data?.query?.search || searchResponse.data.query.search.length === 0) {
+    const searchResults: Array<{ pageid: number }> = searchResponse.data?.query?.search ?? [];
+    if (searchResults.length === 0) {
       return [];
     }
 
-    // Get first page ID
-    const pageId = searchResponse.data.query.search[0].pageid;
-
-    // Try to get coordinates for this page
-    const geoResponse = await axios.get(WIKIPEDIA_API_URL, {
+    // Get coordinates for all matching pages in one request
+    const pageIds = searchResults.map((result) => result.pageid);
+    const geoResponse = await axios.get(wikipediaApiUrl(lang), {
       params: {
         action: "query",
-        pageids: pageId,
+        pageids: pageIds.join("|"),
         prop: "coordinates",
+        coprop: "type|dim",
+        colimit: "max",
         format: "json",
         origin: "*",
       },
+      signal,
     });
 
-    if (geoResponse.data?.query?.pages?.[pageId]?.coordinates?.[0]) {
-      const coords = geoResponse.data.query.pages[pageId].coordinates[0];
-      const title = geoResponse.data.query.pages[pageId].title;
-
-      return [
-        {
+    const pages = geoResponse.data?.query?.pages ?? {};
+    return pageIds
+      .filter((pageId) => pages[pageId]?.coordinates?.[0])
+      .map((pageId) => {
+        const coords = pages[pageId].coordinates[0];
+        return {
           pageid: pageId,
           ns: 0,
-          title: title,
+          title: pages[pageId].title,
           lat: coords.lat,
           lon: coords.lon,
           dist: 0,
           primary: "true",
-        },
-      ];
-    }
-
-    return [];
+          type: coords.type,
+          dim: coords.dim,
+        };
+      });
   } catch (error) {
+    if (signal?.aborted) {
+      throw error; // Given up on by the caller, nothing to report
+    }
     if (axios.isAxiosError(error)) {
       console.error("Axios error searching Wikipedia:", error.message);
     } else {
@@ -179,7 +397,7 @@ export async function searchWikipedia(query: string): Promise<WikiGeosearchResul
 /**
  * Calculate distance between two coordinates using the Haversine formula
  */
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371; // Radius of the Earth in km
   const dLat = deg2rad(lat2 - lat1);
   const dLon = deg2rad(lon2 - lon1);
@@ -0,0 +1,215 @@
+import axios from "axios";
+import { MapBounds } from "@/types";
+import { haversineDistance } from "./wikipedia";
+
+const MAX_RADIUS = 10000; // Maximum radius in meters for geosearch
+const MAX_ARTICLES = 5; // Destination articles whose listings are read per request
+const USER_AGENT = "LandmarkExplorer/1.0";
+
+// Supported languages that have a Wikivoyage edition
+export const WIKIVOYAGE_LANGUAGES = ["en", "de", "fr", "es", "it", "pt", "nl", "pl", "sv", "ru", "uk", "ja", "zh", "hi"];
+
+// Listing templates worth showing as landmarks; eat/drink/sleep/buy listings are skipped
+const LANDMARK_TEMPLATES = ["see", "do"];
+const GENERIC_TEMPLATES = ["listing", "vcard"];
+const SKIPPED_LISTING_TYPES = ["eat", "drink", "sleep", "buy", "go"];
+
+export interface WikivoyageListing {
+  articleId: number;
+  articleTitle: string;
+  name: string;
+  lat: number;
+  lon: number;
+  description?: string;
+  address?: string;
+  image?: string;
+  wikidata?: string;
+}
+
+function wikivoyageApiUrl(lang: string): string {
+  return `${wikivoyageBaseUrl(lang)}/w/api.php`;
+}
+
+/**
+ * Base URL of a Wikivoyage language edition
+ */
+export function wikivoyageBaseUrl(lang: string): string {
+  return `https://${lang}.wikivoyage.org`;
+}
+
+/**
+ * Fetch "see" and "do" listings with coordinates from the Wikivoyage destination articles
+ * nearest the center of the given bounds
+ */
+export async function fetchListings(bounds: MapBounds, lang: string): Promise<WikivoyageListing[]> {
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLon = (bounds.east + bounds.west) / 2;
+  const radius = Math.min(haversineDistance(centerLat, centerLon, bounds.north, bounds.east) * 1000, MAX_RADIUS);
+
+  try {
+    const searchResponse = await axios.get(wikivoyageApiUrl(lang), {
+      params: {
+        action: "query",
+        list: "geosearch",
+        gscoord: `${centerLat}|${centerLon}`,
+        gsradius: radius,
+        gslimit: MAX_ARTICLES,
+        format: "json",
+        origin: "*",
+      },
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+    });
+
+    const articles: Array<{ pageid: number }> = searchResponse.data?.query?.geosearch ?? [];
+    if (articles.length === 0) {
+      return [];
+    }
+
+    const contentResponse = await axios.get(wikivoyageApiUrl(lang), {
+      params: {
+        action: "query",
+        pageids: articles.map((article) => article.pageid).join("|"),
+        prop: "revisions",
+        rvprop: "content",
+        rvslots: "main",
+        format: "json",
+        formatversion: 2,
+        origin: "*",
+      },
+      headers: {
+        "User-Agent": USER_AGENT,
+      },
+    });
+
+    const pages: any[] = contentResponse.data?.query?.pages ?? [];
+    return pages.flatMap((page) => {
+      const wikitext: string | undefined = page.revisions?.[0]?.slots?.main?.content;
+      return wikitext ? parseListings(wikitext, page.pageid, page.title) : [];
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error("Axios error fetching Wikivoyage listings:", error.message);
+    } else {
+      console.error("Error fetching Wikivoyage listings:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extract listings with coordinates from the wikitext of an article
+ */
+export function parseListings(wikitext: string, articleId: number, articleTitle: string): WikivoyageListing[] {
+  const listings: WikivoyageListing[] = [];
+
+  findTemplates(wikitext).forEach(({ name, params }) => {
+    const template = name.toLowerCase();
+    const isLandmark =
+      LANDMARK_TEMPLATES.includes(template) ||
+      (GENERIC_TEMPLATES.includes(template) && !SKIPPED_LISTING_TYPES.includes(params.type?.toLowerCase()));
+
+    const lat = parseFloat(params.lat);
+    const lon = parseFloat(params.long ?? params.lon);
+    const listingName = stripMarkup(params.name ?? "");
+
+    if (!isLandmark || !listingName || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return;
+    }
+
+    listings.push({
+      articleId,
+      articleTitle,
+      name: listingName,
+      lat,
+      lon,
+      description: stripMarkup(params.content ?? params.description ?? "") || undefined,
+      address: stripMarkup(params.address ?? "") || undefined,
+      image: params.image || undefined,
+      wikidata: /^Q\d+$/.test(params.wikidata ?? "") ? params.wikidata : undefined,
+    });
+  });
+
+  return listings;
+}
+
+/**
+ * Find the top-level templates in wikitext along with their named parameters
+ */
+function findTemplates(wikitext: string): Array<{ name: string; params: Record<string, string> }> {
+  const templates: Array<{ name: string; params: Record<string, string> }> = [];
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < wikitext.length - 1; i++) {
+    const pair = wikitext.slice(i, i + 2);
+    if (pair === "{{") {
+      if (depth === 0) {
+        start = i + 2;
+      }
+      depth++;
+      i++;
+    } else if (pair === "}}" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        templates.push(parseTemplate(wikitext.slice(start, i)));
+      }
+      i++;
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Split a template body into its name and named parameters, ignoring pipes inside links and nested templates
+ */
+function parseTemplate(body: string): { name: string; params: Record<string, string> } {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const pair = body.slice(i, i + 2);
+    if (pair === "{{" || pair === "[[") {
+      depth++;
+      current += pair;
+      i++;
+    } else if ((pair === "}}" || pair === "]]") && depth > 0) {
+      depth--;
+      current += pair;
+      i++;
+    } else if (body[i] === "|" && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += body[i];
+    }
+  }
+  parts.push(current);
+
+  const params: Record<string, string> = {};
+  parts.slice(1).forEach((part) => {
+    const separator = part.indexOf("=");
+    if (separator > 0) {
+      params[part.slice(0, separator).trim().toLowerCase()] = part.slice(separator + 1).trim();
+    }
+  });
+
+  return { name: parts[0].trim(), params };
+}
+
+/**
+ * Reduce wikitext to plain text: links keep their label, templates and formatting are dropped
+ */
+function stripMarkup(text: string): string {
+  return text
+    .replace(/\{\{[^{}]*\}\}/g, "")
+    .replace(/\[\[(?:[^|\]]*\|)?([^\]]*)\]\]/g, "$1")
+    .replace(/\[https?:\/\/\S+\s([^\]]*)\]/g, "$1")
+    .replace(/'{2,}/g, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,53 @@
+import { createHash, randomBytes } from "crypto";
+import { BookmarkRecord, isNewerRecord } from "@shared/bookmarks";
+
+// Crockford's base32: no I, L, O or U, so codes are easy to read out and type
+const SYNC_CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const SYNC_CODE_GROUPS = 5;
+const SYNC_CODE_GROUP_LENGTH = 4; // 5 groups of 4 characters carry 100 random bits
+
+/**
+ * Generate a new sync code, e.g. "7K2M-QX9D-4HTB-W1NE-8RZC". The code is the only credential
+ * of an anonymous bookmark account: anyone who has it can read and change the bookmarks.
+ */
+export function createSyncCode(): string {
+  const length = SYNC_CODE_GROUPS * SYNC_CODE_GROUP_LENGTH;
+  const bytes = randomBytes(length);
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += SYNC_CODE_ALPHABET[bytes[i] % SYNC_CODE_ALPHABET.length]; // 256 is a multiple of 32, so no bias
+  }
+  return code.match(new RegExp(`.{${SYNC_CODE_GROUP_LENGTH}}`, "g"))!.join("-");
+}
+
+/**
+ * Normalize a sync code as typed by a user: case, separators and look-alike letters don't matter
+ */
+export function normalizeSyncCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+/**
+ * Account ID for a sync code. Only the hash is stored, so a leaked database doesn't reveal codes.
+ */
+export function accountIdForSyncCode(code: string): string {
+  return createHash("sha256").update(normalizeSyncCode(code)).digest("hex");
+}
+
+/**
+ * Keep only the latest change to each record, for batches that change a record more than once
+ */
+export function latestRecords(records: BookmarkRecord[]): BookmarkRecord[] {
+  const latest = new Map<string, BookmarkRecord>();
+  records.forEach((record) => {
+    const key = `${record.kind}:${record.key}`;
+    if (isNewerRecord(record, latest.get(key))) {
+      latest.set(key, record);
+    }
+  });
+  return Array.from(latest.values());
+}
@@ -0,0 +1,133 @@
+import { DEFAULT_CATEGORY, LandmarkCategory } from "@shared/categories";
+
+// Wikidata classes (values of "instance of", P31) and the category they map to
+const WIKIDATA_CLASSES: Record<string, LandmarkCategory> = {
+  Q33506: "museum", // museum
+  Q207694: "museum", // art museum
+  Q1007870: "museum", // art gallery
+  Q2772772: "museum", // military museum
+  Q16970: "religious", // church building
+  Q1088552: "religious", // Catholic church building
+  Q2977: "religious", // cathedral
+  Q108325: "religious", // chapel
+  Q32815: "religious", // mosque
+  Q34627: "religious", // synagogue
+  Q44539: "religious", // temple
+  Q44613: "religious", // monastery
+  Q160742: "religious", // abbey
+  Q4989906: "monument", // monument
+  Q5003624: "monument", // memorial
+  Q575759: "monument", // war memorial
+  Q179700: "monument", // statue
+  Q23413: "castle", // castle
+  Q16560: "castle", // palace
+  Q57821: "castle", // fortification
+  Q1785071: "castle", // fort
+  Q839954: "historic", // archaeological site
+  Q109607: "historic", // ruins
+  Q22698: "nature", // park
+  Q1107656: "nature", // garden
+  Q167346: "nature", // botanical garden
+  Q46169: "nature", // national park
+  Q473972: "nature", // protected area
+  Q8502: "nature", // mountain
+  Q23397: "nature", // lake
+  Q34038: "nature", // waterfall
+  Q41176: "architecture", // building
+  Q11303: "architecture", // skyscraper
+  Q12518: "architecture", // tower
+  Q12280: "architecture", // bridge
+  Q3947: "architecture", // house
+  Q55488: "transport", // railway station
+  Q928830: "transport", // metro station
+  Q1248784: "transport", // airport
+  Q44782: "transport", // port
+  Q3918: "education", // university
+  Q3914: "education", // school
+  Q7075: "education", // library
+  Q24354: "entertainment", // theatre
+  Q153562: "entertainment", // opera house
+  Q483110: "entertainment", // stadium
+  Q43501: "entertainment", // zoo
+  Q194195: "entertainment", // amusement park
+};
+
+// OpenStreetMap tags and the category they map to, most specific first; "*" matches any value
+const OSM_TAG_CATEGORIES: Array<[key: string, value: string, category: LandmarkCategory]> = [
+  ["tourism", "museum", "museum"],
+  ["tourism", "gallery", "museum"],
+  ["amenity", "place_of_worship", "religious"],
+  ["historic", "monument", "monument"],
+  ["historic", "memorial", "monument"],
+  ["historic", "castle", "castle"],
+  ["historic", "fort", "castle"],
+  ["historic", "palace", "castle"],
+  ["historic", "church", "religious"],
+  ["historic", "wayside_shrine", "religious"],
+  ["historic", "*", "historic"],
+  ["leisure", "park", "nature"],
+  ["leisure", "garden", "nature"],
+  ["leisure", "nature_reserve", "nature"],
+  ["natural", "*", "nature"],
+  ["tourism", "viewpoint", "nature"],
+  ["railway", "station", "transport"],
+  ["aeroway", "aerodrome", "transport"],
+  ["amenity", "university", "education"],
+  ["amenity", "school", "education"],
+  ["amenity", "library", "education"],
+  ["amenity", "theatre", "entertainment"],
+  ["leisure", "stadium", "entertainment"],
+  ["tourism", "zoo", "entertainment"],
+  ["tourism", "theme_park", "entertainment"],
+  ["man_made", "tower", "architecture"],
+  ["man_made", "bridge", "architecture"],
+  ["building", "*", "architecture"],
+];
+
+// Keywords in (English) Wikipedia category names, checked in order
+const WIKIPEDIA_CATEGORY_PATTERNS: Array<[pattern: RegExp, category: LandmarkCategory]> = [
+  [/\b(museums?|galleries)\b/i, "museum"],
+  [/\b(churches|cathedrals|chapels|mosques|synagogues|temples|monasteries|abbeys|shrines)\b/i, "religious"],
+  [/\b(monuments|memorials|statues|sculptures)\b/i, "monument"],
+  [/\b(castles|palaces|forts|fortifications)\b/i, "castle"],
+  [/\b(archaeological sites|ruins|historic sites)\b/i, "historic"],
+  [/\b(parks|gardens|nature reserves|mountains|lakes|waterfalls|beaches)\b/i, "nature"],
+  [/\b(railway stations|airports|ports|metro stations)\b/i, "transport"],
+  [/\b(universities|colleges|schools|libraries)\b/i, "education"],
+  [/\b(theatres|theaters|opera houses|stadiums|zoos|amusement parks|concert halls)\b/i, "entertainment"],
+  [/\b(bridges|towers|skyscrapers|buildings|houses)\b/i, "architecture"],
+];
+
+export interface CategorySignals {
+  instanceOf?: string[]; // Wikidata item IDs
+  osmTags?: Record<string, string>;
+  wikipediaCategories?: string[];
+}
+
+/**
+ * Map whatever the sources know about a landmark onto the category taxonomy.
+ * Wikidata classes are the most reliable, then OpenStreetMap tags, then Wikipedia category names.
+ */
+export function categorizeLandmark({ instanceOf, osmTags, wikipediaCategories }: CategorySignals): LandmarkCategory {
+  const wikidataMatch = instanceOf?.map((id) => WIKIDATA_CLASSES[id]).find(Boolean);
+  if (wikidataMatch) {
+    return wikidataMatch;
+  }
+
+  if (osmTags) {
+    const osmMatch = OSM_TAG_CATEGORIES.find(
+      ([key, value]) => osmTags[key] !== undefined && (value === "*" || osmTags[key] === value)
+    );
+    if (osmMatch) {
+      return osmMatch[2];
+    }
+  }
+
+  for (const [pattern, category] of WIKIPEDIA_CATEGORY_PATTERNS) {
+    if (wikipediaCategories?.some((name) => pattern.test(name))) {
+      return category;
+    }
+  }
+
+  return DEFAULT_CATEGORY;
+}
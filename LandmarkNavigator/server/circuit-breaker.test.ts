@@ -0,0 +1,143 @@
+import { CircuitBreaker, CircuitOpenError, TimeoutError, withTimeout } from "./circuit-breaker";
+
+const succeed = () => Promise.resolve("ok");
+const fail = () => Promise.reject(new Error("upstream error"));
+
+/**
+ * Fail the given number of calls through the breaker
+ */
+async function failTimes(breaker: CircuitBreaker, times: number) {
+  for (let i = 0; i < times; i++) {
+    await expect(breaker.execute(fail)).rejects.toThrow("upstream error");
+  }
+}
+
+describe("CircuitBreaker", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("stays closed below the failure threshold", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+
+    await failTimes(breaker, 2);
+
+    expect(breaker.state).toBe("closed");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+  });
+
+  it("only counts consecutive failures", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+
+    await failTimes(breaker, 2);
+    await breaker.execute(succeed);
+    await failTimes(breaker, 2);
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("opens after the failure threshold and then fails fast", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    const run = jest.fn(succeed);
+
+    await failTimes(breaker, 3);
+
+    expect(breaker.state).toBe("open");
+    await expect(breaker.execute(run)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("turns half-open once the reset time has passed", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    await failTimes(breaker, 3);
+
+    now += 29_999;
+    expect(breaker.state).toBe("open");
+    now += 1;
+    expect(breaker.state).toBe("half-open");
+  });
+
+  it("closes again when the trial call succeeds", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    await failTimes(breaker, 3);
+    now += 30_000;
+
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+
+    expect(breaker.state).toBe("closed");
+    // The failure count starts over
+    await failTimes(breaker, 2);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("reopens straight away when the trial call fails", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    await failTimes(breaker, 3);
+    now += 30_000;
+
+    await failTimes(breaker, 1);
+
+    expect(breaker.state).toBe("open");
+    now += 29_999;
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it("lets a single trial call through while half-open", async () => {
+    const breaker = new CircuitBreaker(3, 30_000);
+    await failTimes(breaker, 3);
+    now += 30_000;
+    let finishTrial!: (value: string) => void;
+
+    const trial = breaker.execute(() => new Promise<string>((resolve) => {
+      finishTrial = resolve;
+    }));
+
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    finishTrial("ok");
+    await expect(trial).resolves.toBe("ok");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+  });
+});
+
+describe("withTimeout", () => {
+  it("resolves with the result of a task that settles in time", async () => {
+    await expect(withTimeout(succeed, 50)).resolves.toBe("ok");
+  });
+
+  it("passes on the rejection of a task that settles in time", async () => {
+    await expect(withTimeout(fail, 50)).rejects.toThrow("upstream error");
+  });
+
+  it("rejects with a TimeoutError and aborts the task when it takes too long", async () => {
+    let taskSignal: AbortSignal | undefined;
+    const slow = (signal: AbortSignal) => {
+      taskSignal = signal;
+      return new Promise((resolve) => {
+        const timer = setTimeout(resolve, 200, "late");
+        signal.addEventListener("abort", () => clearTimeout(timer));
+      });
+    };
+
+    await expect(withTimeout(slow, 20)).rejects.toBeInstanceOf(TimeoutError);
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it("leaves the signal of a task that settles in time alone", async () => {
+    let taskSignal: AbortSignal | undefined;
+
+    await withTimeout((signal) => {
+      taskSignal = signal;
+      return succeed();
+    }, 20);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(taskSignal?.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Error thrown when a call is refused because its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string = "Circuit is open.") {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Error thrown when a call takes longer than its time limit
+ */
+export class TimeoutError extends Error {
+  constructor(message: string = "Operation timed out.") {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Stops calling a failing upstream service for a while.
+ * After failureThreshold consecutive failures the circuit opens and calls fail fast;
+ * once resetMs has passed a single trial call is let through, closing the circuit again if it succeeds.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private failureThreshold: number = 3, private resetMs: number = 30000) {}
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.resetMs ? "half-open" : "open";
+  }
+
+  async execute<T>(run: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError();
+    }
+
+    this.trialInFlight = state === "half-open";
+    try {
+      const result = await run();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (state === "half-open" || this.failures >= this.failureThreshold) {
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (state === "half-open") {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
+
+/**
+ * Run a task, rejecting with a TimeoutError if it has not settled within ms milliseconds.
+ * The task's signal is aborted on timeout so an abandoned request stops instead of running on.
+ */
+export function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new TimeoutError(`Operation timed out after ${ms}ms.`));
+      controller.abort();
+    }, ms);
+  });
+
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,18 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built over the shared schema
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Create a Drizzle database connected to the given Postgres URL
+ */
+export function createDb(connectionString: string): Database {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
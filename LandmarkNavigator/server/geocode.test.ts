@@ -0,0 +1,413 @@
+import http, { IncomingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+import { GeocodeResult } from "@/types";
+
+type GeocodeModule = typeof import("./geocode");
+
+// What the stub server answers for a path, optionally after a delay
+interface StubResponse {
+  status?: number;
+  body: unknown;
+  delayMs?: number;
+}
+
+type StubHandler = (url: URL) => StubResponse;
+
+const defaultHandlers: Record<string, StubHandler> = {
+  "/en/w/api.php": (url) =>
+    url.searchParams.get("list") === "search"
+      ? { body: { query: { search: [{ pageid: 9232 }, { pageid: 1001 }] } } }
+      : {
+          body: {
+            query: {
+              pages: {
+                9232: {
+                  pageid: 9232,
+                  title: "Eiffel Tower",
+                  coordinates: [{ lat: 48.8584, lon: 2.2945, type: "landmark", dim: 300 }],
+                },
+                // A search hit without coordinates is left out
+                1001: { pageid: 1001, title: "Eiffel Tower (song)" },
+              },
+            },
+          },
+        },
+  "/search": () => ({
+    body: [
+      {
+        lat: "48.8582599",
+        lon: "2.2945006",
+        display_name: "Eiffel Tower, 5, Avenue Anatole France, Paris, France",
+        type: "attraction",
+        boundingbox: ["48.8574753", "48.8590453", "2.2933119", "2.2956897"],
+      },
+      { lat: "48.8534951", lon: "2.3483915", display_name: "Paris, France", type: "city" },
+    ],
+  }),
+  "/api": () => ({
+    body: {
+      features: [
+        {
+          geometry: { coordinates: [2.2944, 48.8583] },
+          properties: {
+            name: "Eiffel Tower",
+            city: "Paris",
+            country: "France",
+            osm_value: "attraction",
+            extent: [2.2933, 48.859, 2.2957, 48.8575],
+          },
+        },
+      ],
+    },
+  }),
+};
+
+// A request the stub server received; cancelled when the client hung up before the response
+interface StubRequest {
+  url: URL;
+  headers: IncomingHttpHeaders;
+  cancelled: boolean;
+}
+
+let server: http.Server;
+let handlers: Record<string, StubHandler>;
+const requests: StubRequest[] = [];
+const inFlight = new Set<http.ServerResponse>();
+let geocode: GeocodeModule;
+
+const requestsTo = (path: string) => requests.filter((request) => request.url.pathname === path);
+
+/**
+ * Wait until the stub server has answered or lost every request, so none outlives its test
+ */
+async function settleRequests() {
+  while (inFlight.size > 0) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://stub");
+    const request: StubRequest = { url, headers: req.headers, cancelled: false };
+    requests.push(request);
+    const handler = handlers[url.pathname];
+    const { status = 200, body, delayMs = 0 } = handler ? handler(url) : { status: 404, body: {} };
+    const timer = setTimeout(() => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    }, delayMs);
+
+    inFlight.add(res);
+    res.on("close", () => {
+      clearTimeout(timer);
+      request.cancelled = !res.writableFinished;
+      inFlight.delete(res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // The API clients read their endpoints when first imported
+  process.env.WIKIPEDIA_BASE_URL = `${baseUrl}/{lang}`;
+  process.env.NOMINATIM_BASE_URL = baseUrl;
+  process.env.NOMINATIM_MIN_INTERVAL_MS = "1";
+  process.env.PHOTON_BASE_URL = baseUrl;
+  geocode = await import("./geocode");
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  handlers = { ...defaultHandlers };
+  requests.length = 0;
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await settleRequests();
+  jest.restoreAllMocks();
+});
+
+describe("WikipediaGeocoder", () => {
+  it("returns articles with coordinates and estimates their bounding box", async () => {
+    const results = await new geocode.WikipediaGeocoder().search("Eiffel Tower", "en", 5);
+
+    expect(results).toEqual([
+      {
+        lat: 48.8584,
+        lon: 2.2945,
+        display_name: "Eiffel Tower",
+        type: "landmark",
+        source: "wikipedia",
+        boundingbox: geocode.defaultBoundingBox(48.8584, 2.2945, "landmark", 300),
+      },
+    ]);
+    expect(requestsTo("/en/w/api.php").map((request) => request.url.searchParams.get("srsearch"))).toEqual([
+      "Eiffel Tower",
+      null,
+    ]);
+  });
+
+  it("queries the language edition through the configured base URL", async () => {
+    handlers["/fr/w/api.php"] = () => ({ body: { query: { search: [] } } });
+
+    await expect(new geocode.WikipediaGeocoder().search("Tour Eiffel", "fr", 5)).resolves.toEqual([]);
+    expect(requestsTo("/fr/w/api.php")).toHaveLength(1);
+  });
+
+  it("fails when the server does", async () => {
+    handlers["/en/w/api.php"] = () => ({ status: 500, body: {} });
+
+    await expect(new geocode.WikipediaGeocoder().search("Eiffel Tower", "en", 5)).rejects.toThrow();
+  });
+});
+
+describe("NominatimGeocoder", () => {
+  it("maps places and reorders their bounding box", async () => {
+    const results = await new geocode.NominatimGeocoder().search("Eiffel Tower", "de", 2);
+
+    expect(results[0]).toEqual({
+      lat: 48.8582599,
+      lon: 2.2945006,
+      display_name: "Eiffel Tower, 5, Avenue Anatole France, Paris, France",
+      type: "attraction",
+      source: "nominatim",
+      boundingbox: { south: 48.8574753, north: 48.8590453, west: 2.2933119, east: 2.2956897 },
+    });
+    expect(results[1].boundingbox).toBeUndefined();
+  });
+
+  it("asks for results in the requested language and identifies the app", async () => {
+    await new geocode.NominatimGeocoder().search("Eiffel Tower", "de", 2);
+
+    const [request] = requestsTo("/search");
+    expect(request.url.searchParams.get("q")).toBe("Eiffel Tower");
+    expect(request.url.searchParams.get("limit")).toBe("2");
+    expect(request.headers["accept-language"]).toBe("de");
+    expect(request.headers["user-agent"]).toBe("LandmarkExplorer/1.0");
+  });
+
+  it("fails when the server does", async () => {
+    handlers["/search"] = () => ({ status: 503, body: {} });
+
+    await expect(new geocode.NominatimGeocoder().search("Eiffel Tower", "en", 5)).rejects.toThrow();
+  });
+});
+
+describe("PhotonGeocoder", () => {
+  it("maps features and reorders their extent", async () => {
+    const results = await new geocode.PhotonGeocoder().search("Eiffel Tower", "en", 5);
+
+    expect(results).toEqual([
+      {
+        lat: 48.8583,
+        lon: 2.2944,
+        display_name: "Eiffel Tower, Paris, France",
+        type: "attraction",
+        source: "photon",
+        boundingbox: { west: 2.2933, north: 48.859, east: 2.2957, south: 48.8575 },
+      },
+    ]);
+  });
+
+  it("leaves out languages Photon does not support", async () => {
+    await new geocode.PhotonGeocoder().search("Eiffel Tower", "fr", 5);
+    await new geocode.PhotonGeocoder().search("Eiffel Tower", "ja", 5);
+
+    expect(requestsTo("/api").map((request) => request.url.searchParams.get("lang"))).toEqual(["fr", null]);
+  });
+
+  it("fails when the server does", async () => {
+    handlers["/api"] = () => ({ status: 500, body: {} });
+
+    await expect(new geocode.PhotonGeocoder().search("Eiffel Tower", "en", 5)).rejects.toThrow();
+  });
+});
+
+describe("GeocoderChain", () => {
+  const createChain = (timeoutMs: number = 1000) =>
+    new geocode.GeocoderChain(
+      [new geocode.WikipediaGeocoder(), new geocode.NominatimGeocoder(), new geocode.PhotonGeocoder()],
+      timeoutMs
+    );
+
+  it("merges the answers of every provider", async () => {
+    const results = await createChain().search("Eiffel Tower", "en", 5);
+
+    expect(results.map((result) => [result.display_name, result.source])).toEqual([
+      ["Eiffel Tower", "wikipedia"],
+      ["Paris, France", "nominatim"],
+    ]);
+    // The estimated box of the Wikipedia hit gives way to Nominatim's
+    expect(results[0].boundingbox).toEqual({ south: 48.8574753, north: 48.8590453, west: 2.2933119, east: 2.2956897 });
+  });
+
+  it("skips a provider that does not answer in time and cancels its request", async () => {
+    handlers["/api"] = () => ({ ...defaultHandlers["/api"](new URL("http://stub")), delayMs: 300 });
+
+    const results = await createChain(100).search("Eiffel Tower", "en", 5);
+    await settleRequests();
+
+    expect(results).toHaveLength(2);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Skipping geocoder photon"));
+    expect(requestsTo("/api")[0].cancelled).toBe(true);
+    // Cancelled requests are expected, not errors worth logging
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("frees the Nominatim queue when a Nominatim search times out", async () => {
+    handlers["/search"] = () => ({ ...defaultHandlers["/search"](new URL("http://stub")), delayMs: 300 });
+    await createChain(100).search("Eiffel Tower", "en", 5);
+    await settleRequests();
+    expect(requestsTo("/search")[0].cancelled).toBe(true);
+
+    handlers["/search"] = defaultHandlers["/search"];
+    const results = await createChain(100).search("Eiffel Tower", "en", 5);
+
+    expect(results.map((result) => result.source)).toContain("nominatim");
+  });
+
+  it("skips a failing provider while the others answer", async () => {
+    handlers["/search"] = () => ({ status: 500, body: {} });
+
+    const results = await createChain().search("Eiffel Tower", "en", 5);
+
+    expect(results.map((result) => result.source)).toEqual(["wikipedia"]);
+  });
+
+  it("stops calling a provider after repeated failures until it is due for a retry", async () => {
+    // Without Nominatim, whose shared queue would carry the faked clock into later tests
+    const chain = new geocode.GeocoderChain([new geocode.WikipediaGeocoder(), new geocode.PhotonGeocoder()], 1000);
+    handlers["/api"] = () => ({ status: 500, body: {} });
+    for (let i = 0; i < 3; i++) {
+      await chain.search("Eiffel Tower", "en", 5);
+    }
+
+    await chain.search("Eiffel Tower", "en", 5);
+    expect(requestsTo("/api")).toHaveLength(3);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Skipping geocoder photon"));
+
+    // Once the breaker's reset time has passed a trial request goes through, and its success closes the circuit
+    handlers["/api"] = defaultHandlers["/api"];
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 30_000);
+    const results = await chain.search("Eiffel Tower", "en", 5);
+
+    expect(requestsTo("/api")).toHaveLength(4);
+    // Photon's answer is merged into the Wikipedia hit
+    expect(results[0].boundingbox).toEqual({ west: 2.2933, north: 48.859, east: 2.2957, south: 48.8575 });
+    await chain.search("Eiffel Tower", "en", 5);
+    expect(requestsTo("/api")).toHaveLength(5);
+  });
+
+  it("fails when every provider fails", async () => {
+    Object.keys(handlers).forEach((path) => {
+      handlers[path] = () => ({ status: 500, body: {} });
+    });
+
+    await expect(createChain().search("Eiffel Tower", "en", 5)).rejects.toThrow("All geocoding providers failed.");
+  });
+});
+
+describe("createGeocoderChain", () => {
+  it("builds the chain in the configured order, ignoring unknown and repeated names", () => {
+    expect(geocode.createGeocoderChain("Photon, nominatim, bing, photon", 1000).providers).toEqual([
+      "photon",
+      "nominatim",
+    ]);
+  });
+
+  it("falls back to the default providers when none are valid", () => {
+    expect(geocode.createGeocoderChain("bing", 1000).providers).toEqual(["wikipedia", "nominatim"]);
+  });
+});
+
+describe("rankGeocodeResults", () => {
+  const place = (display_name: string, source: GeocodeResult["source"], lat = 48.85, lon = 2.35): GeocodeResult => ({
+    lat,
+    lon,
+    display_name,
+    type: "place",
+    source,
+  });
+
+  it("interleaves lists by rank, with earlier lists winning ties", () => {
+    const ranked = geocode.rankGeocodeResults(
+      [
+        [place("A", "wikipedia"), place("B", "wikipedia")],
+        [place("C", "nominatim"), place("D", "nominatim")],
+      ],
+      10
+    );
+
+    expect(ranked.map((result) => result.display_name)).toEqual(["A", "C", "B", "D"]);
+  });
+
+  it("ranks a place found by several providers above places found by one", () => {
+    const ranked = geocode.rankGeocodeResults(
+      [
+        [place("Louvre", "wikipedia"), place("Paris", "wikipedia")],
+        [place("Notre-Dame", "nominatim"), place("Paris, Île-de-France, France", "nominatim", 48.851)],
+      ],
+      10
+    );
+
+    expect(ranked.map((result) => result.display_name)).toEqual(["Paris", "Louvre", "Notre-Dame"]);
+  });
+
+  it("keeps same-named places more than a kilometre apart", () => {
+    const ranked = geocode.rankGeocodeResults(
+      [[place("Paris", "wikipedia")], [place("Paris", "nominatim", 33.66, -95.55)]],
+      10
+    );
+
+    expect(ranked.map((result) => result.source)).toEqual(["wikipedia", "nominatim"]);
+  });
+
+  it("keeps the first entry of a merged place but takes a real bounding box for a Wikipedia hit", () => {
+    const boundingbox = { north: 48.9, south: 48.8, east: 2.4, west: 2.2 };
+    const ranked = geocode.rankGeocodeResults(
+      [[place("Paris", "wikipedia")], [{ ...place("Paris", "nominatim"), type: "city", boundingbox }]],
+      10
+    );
+
+    expect(ranked).toEqual([{ ...place("Paris", "wikipedia"), boundingbox }]);
+  });
+
+  it("takes the bounding box of the first provider that has one", () => {
+    const nominatimBox = { north: 48.9, south: 48.8, east: 2.4, west: 2.2 };
+    const photonBox = { north: 49, south: 48.7, east: 2.5, west: 2.1 };
+    const ranked = geocode.rankGeocodeResults(
+      [
+        [place("Paris", "wikipedia")],
+        [{ ...place("Paris", "nominatim"), boundingbox: nominatimBox }],
+        [{ ...place("Paris", "photon"), boundingbox: photonBox }],
+      ],
+      10
+    );
+
+    expect(ranked[0].boundingbox).toBe(nominatimBox);
+  });
+
+  it("does not replace the bounding box of other providers", () => {
+    const nominatimBox = { north: 48.9, south: 48.8, east: 2.4, west: 2.2 };
+    const photonBox = { north: 49, south: 48.7, east: 2.5, west: 2.1 };
+    const ranked = geocode.rankGeocodeResults(
+      [[{ ...place("Paris", "nominatim"), boundingbox: nominatimBox }], [{ ...place("Paris", "photon"), boundingbox: photonBox }]],
+      10
+    );
+
+    expect(ranked[0].boundingbox).toBe(nominatimBox);
+  });
+
+  it("returns at most limit results", () => {
+    const ranked = geocode.rankGeocodeResults([[place("A", "wikipedia"), place("B", "wikipedia"), place("C", "wikipedia")]], 2);
+
+    expect(ranked.map((result) => result.display_name)).toEqual(["A", "B"]);
+  });
+});
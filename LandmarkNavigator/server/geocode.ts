@@ -0,0 +1,208 @@
+import { searchWikipedia, haversineDistance } from "./api/wikipedia";
+import { searchPlaces } from "./api/nominatim";
+import { searchPhoton } from "./api/photon";
+import { CircuitBreaker, CircuitOpenError, TimeoutError, withTimeout } from "./circuit-breaker";
+import { GeocodeResult, MapBounds } from "@/types";
+
+// Constants
+const RANK_CONSTANT = 10; // Reciprocal rank fusion damping, lower favours top-ranked results
+const DUPLICATE_DISTANCE = 1; // km within which same-named results are merged
+const DEFAULT_PROVIDERS = "wikipedia,nominatim";
+const DEFAULT_TIMEOUT = 5000; // ms each provider gets to answer, including time spent queued
+const BREAKER_FAILURE_THRESHOLD = 3; // Consecutive failures before a provider is skipped
+const BREAKER_RESET_TIME = 30 * 1000; // How long a failing provider is skipped before it is retried
+const KM_PER_DEGREE = 111.32; // Length of a degree of latitude
+
+// Radius in km of the box fitted around a Wikipedia hit, by its coordinate type
+const DEFAULT_RADIUS_BY_TYPE: Record<string, number> = {
+  country: 500,
+  adm1st: 200,
+  adm2nd: 50,
+  adm3rd: 20,
+  city: 10,
+  airport: 3,
+  landmark: 0.5,
+  building: 0.25,
+};
+const DEFAULT_RADIUS = 2;
+
+export interface Geocoder {
+  readonly name: GeocodeResult["source"];
+  search(query: string, lang: string, limit: number, signal?: AbortSignal): Promise<GeocodeResult[]>;
+}
+
+/**
+ * Geocodes against Wikipedia articles with coordinates, estimating a bounding box for each hit
+ */
+export class WikipediaGeocoder implements Geocoder {
+  readonly name = "wikipedia" as const;
+
+  async search(query: string, lang: string, limit: number, signal?: AbortSignal): Promise<GeocodeResult[]> {
+    const results = await searchWikipedia(query, lang, limit, signal);
+    return results.map((result) => ({
+      lat: result.lat,
+      lon: result.lon,
+      display_name: result.title,
+      type: result.type || "landmark",
+      source: this.name,
+      boundingbox: defaultBoundingBox(result.lat, result.lon, result.type, result.dim),
+    }));
+  }
+}
+
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim" as const;
+
+  search(query: string, lang: string, limit: number, signal?: AbortSignal): Promise<GeocodeResult[]> {
+    return searchPlaces(query, lang, limit, signal);
+  }
+}
+
+export class PhotonGeocoder implements Geocoder {
+  readonly name = "photon" as const;
+
+  search(query: string, lang: string, limit: number, signal?: AbortSignal): Promise<GeocodeResult[]> {
+    return searchPhoton(query, lang, limit, signal);
+  }
+}
+
+const GEOCODER_FACTORIES: Record<string, () => Geocoder> = {
+  wikipedia: () => new WikipediaGeocoder(),
+  nominatim: () => new NominatimGeocoder(),
+  photon: () => new PhotonGeocoder(),
+};
+
+/**
+ * Queries an ordered list of geocoders in parallel and merges their answers into one ranked list.
+ * Each provider runs behind its own timeout and circuit breaker, so a slow or failing provider
+ * is skipped while the others still answer. Earlier providers win ties and duplicate merges.
+ */
+export class GeocoderChain {
+  private breakers: CircuitBreaker[];
+
+  constructor(private geocoders: Geocoder[], private timeoutMs: number = DEFAULT_TIMEOUT) {
+    this.breakers = geocoders.map(() => new CircuitBreaker(BREAKER_FAILURE_THRESHOLD, BREAKER_RESET_TIME));
+  }
+
+  get providers(): string[] {
+    return this.geocoders.map((geocoder) => geocoder.name);
+  }
+
+  async search(query: string, lang: string, limit: number): Promise<GeocodeResult[]> {
+    const outcomes = await Promise.allSettled(
+      this.geocoders.map((geocoder, index) =>
+        this.breakers[index].execute(() =>
+          withTimeout((signal) => geocoder.search(query, lang, limit, signal), this.timeoutMs)
+        )
+      )
+    );
+
+    const resultLists: GeocodeResult[][] = [];
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === "fulfilled") {
+        resultLists.push(outcome.value);
+      } else if (outcome.reason instanceof CircuitOpenError || outcome.reason instanceof TimeoutError) {
+        console.warn(`Skipping geocoder ${this.geocoders[index].name}: ${outcome.reason.message}`);
+      }
+    });
+
+    if (resultLists.length === 0) {
+      throw new Error("All geocoding providers failed.");
+    }
+
+    return rankGeocodeResults(resultLists, limit);
+  }
+}
+
+/**
+ * Build a geocoder chain from a comma-separated list of provider names, e.g. "nominatim,photon"
+ */
+export function createGeocoderChain(
+  providers: string = process.env.GEOCODER_PROVIDERS || DEFAULT_PROVIDERS,
+  timeoutMs: number = Number(process.env.GEOCODER_TIMEOUT_MS) || DEFAULT_TIMEOUT
+): GeocoderChain {
+  const names = providers
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name, index, list) => name && list.indexOf(name) === index);
+
+  const geocoders: Geocoder[] = [];
+  names.forEach((name) => {
+    const factory = GEOCODER_FACTORIES[name];
+    if (factory) {
+      geocoders.push(factory());
+    } else {
+      console.warn(`Ignoring unknown geocoder "${name}"`);
+    }
+  });
+
+  if (geocoders.length === 0) {
+    console.warn(`No valid geocoders configured, using ${DEFAULT_PROVIDERS}`);
+    return createGeocoderChain(DEFAULT_PROVIDERS, timeoutMs);
+  }
+
+  return new GeocoderChain(geocoders, timeoutMs);
+}
+
+const geocoderChain = createGeocoderChain();
+
+/**
+ * Geocode a place name with the configured provider chain
+ */
+export function geocode(query: string, lang: string, limit: number): Promise<GeocodeResult[]> {
+  return geocoderChain.search(query, lang, limit);
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion.
+ * Results from different lists that name the same nearby place are combined,
+ * keeping the first list's entry and adding up their scores.
+ */
+export function rankGeocodeResults(resultLists: GeocodeResult[][], limit: number): GeocodeResult[] {
+  const ranked: Array<{ result: GeocodeResult; score: number; estimatedBox: boolean }> = [];
+
+  resultLists.forEach((results) => {
+    results.forEach((result, index) => {
+      const score = 1 / (RANK_CONSTANT + index + 1);
+      const duplicate = ranked.find((entry) => isSamePlace(entry.result, result));
+
+      if (duplicate) {
+        duplicate.score += score;
+        // Prefer the first real bounding box over one estimated for a Wikipedia hit
+        if (duplicate.estimatedBox && result.source !== "wikipedia" && result.boundingbox) {
+          duplicate.result = { ...duplicate.result, boundingbox: result.boundingbox };
+          duplicate.estimatedBox = false;
+        }
+      } else {
+        ranked.push({ result, score, estimatedBox: result.source === "wikipedia" });
+      }
+    });
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ result }) => result);
+}
+
+function isSamePlace(a: GeocodeResult, b: GeocodeResult): boolean {
+  const nameA = a.display_name.split(",")[0].trim().toLowerCase();
+  const nameB = b.display_name.split(",")[0].trim().toLowerCase();
+  return nameA === nameB && haversineDistance(a.lat, a.lon, b.lat, b.lon) <= DUPLICATE_DISTANCE;
+}
+
+/**
+ * Estimate a bounding box for a point from the size Wikipedia gives it, or from its type
+ */
+export function defaultBoundingBox(lat: number, lon: number, type?: string, dim?: number): MapBounds {
+  const radius = dim ? dim / 2000 : DEFAULT_RADIUS_BY_TYPE[type ?? ""] ?? DEFAULT_RADIUS;
+  const latDelta = Math.min(radius / KM_PER_DEGREE, 89);
+  const lonDelta = Math.min(radius / (KM_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01)), 180);
+
+  return {
+    north: Math.min(lat + latDelta, 90),
+    south: Math.max(lat - latDelta, -90),
+    east: Math.min(lon + lonDelta, 180),
+    west: Math.max(lon - lonDelta, -180),
+  };
+}
@@ -8,7 +8,7 @@ const app = express();
 const PORT = process.env.PORT || 5000;
 
 // Middleware
-app.use(express.json());
+app.use(express.json({ limit: "1mb" })); // Bookmark sync batches can be larger than the 100kb default
 app.use(express.urlencoded({ extended: false }));
 app.use(cors()); // Enable CORS
 app.use(helmet()); // Secure HTTP headers
@@ -0,0 +1,227 @@
+import { storage } from "./storage";
+import { haversineDistance } from "./api/wikipedia";
+import {
+  LANDMARK_FRESHNESS_TIME,
+  LandmarkSource,
+  createLandmarkSources,
+  fetchWikipediaLandmark,
+} from "./sources";
+import { Landmark, MapBounds } from "@/types";
+import { DEFAULT_CATEGORY } from "@shared/categories";
+import { Tile, containsPoint, countTiles, tileToBounds, tilesForBounds } from "@shared/tiles";
+
+// Constants
+const TILE_CACHE_EXPIRY_TIME = 1000 * 60 * 60; // 1 hour
+const FETCH_TILE_ZOOM = 12; // A zoom 12 tile fits inside the 10 km geosearch radius
+const MAX_TILES = 64; // Upper bound on geosearch tiles per request
+const TILE_CONCURRENCY = 8; // Parallel tile fetches against the sources
+const SAME_PLACE_DISTANCE = 0.15; // km within which similarly named landmarks are the same place
+const NAME_SIMILARITY_THRESHOLD = 0.7; // Dice coefficient of name bigrams treated as the same name
+const GRID_CELL_SIZE = 0.01; // Degrees per cell of the proximity index, well above SAME_PLACE_DISTANCE
+
+// Enabled sources, in order of precedence
+const landmarkSources = createLandmarkSources();
+
+/**
+ * Get landmarks covering the whole of the given bounds from every enabled source.
+ * The bounds are split into fixed tiles which are fetched and cached independently per source,
+ * then merged, de-duplicated across sources and clipped to the bounds.
+ */
+export async function loadLandmarks(bounds: MapBounds, lang: string): Promise<Landmark[]> {
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLon = (bounds.east + bounds.west) / 2;
+
+  // Prefer the tiles nearest the center when the view is too large to cover fully
+  const tileCount = countTiles(bounds, FETCH_TILE_ZOOM);
+  if (tileCount > MAX_TILES) {
+    console.warn(`Bounds span ${tileCount} tiles, fetching the ${MAX_TILES} nearest the center.`);
+  }
+  const tiles = tilesForBounds(bounds, FETCH_TILE_ZOOM, MAX_TILES);
+
+  const landmarksBySource: Landmark[][] = landmarkSources.map(() => []);
+  const requests = tiles.flatMap((tile) => landmarkSources.map((source, index) => ({ tile, source, index })));
+
+  for (let i = 0; i < requests.length; i += TILE_CONCURRENCY) {
+    await Promise.all(
+      requests.slice(i, i + TILE_CONCURRENCY).map(async ({ tile, source, index }) => {
+        const landmarks = await getTileLandmarks(tile, source, lang);
+        landmarksBySource[index].push(
+          ...landmarks.filter((landmark) => containsPoint(bounds, landmark.lat, landmark.lon))
+        );
+      })
+    );
+  }
+
+  return mergeLandmarks(landmarksBySource).map((landmark) => ({
+    ...landmark,
+    distance: haversineDistance(centerLat, centerLon, landmark.lat, landmark.lon),
+  }));
+}
+
+/**
+ * Get a single landmark by page ID, e.g. to open a shared link.
+ * Stored landmarks are served while fresh; Wikipedia pages are fetched when missing or stale.
+ * Landmarks from other sources (negative page IDs) can only come from storage.
+ */
+export async function getLandmark(pageid: number, lang: string): Promise<Landmark | null> {
+  const stored = await storage.getLandmark(pageid, lang);
+  const isFresh = stored && stored.updatedAt >= Date.now() - LANDMARK_FRESHNESS_TIME;
+
+  if (stored && (isFresh || pageid < 0)) {
+    const { updatedAt, ...landmark } = stored;
+    return landmark;
+  }
+
+  if (pageid < 0) {
+    return null;
+  }
+
+  return fetchWikipediaLandmark(pageid, lang);
+}
+
+/**
+ * Get the landmarks a source has within a single tile, from cache when possible
+ */
+async function getTileLandmarks(tile: Tile, source: LandmarkSource, lang: string): Promise<Landmark[]> {
+  const cacheKey = `landmarks_tile_${source.name}_${lang}_${tile.z}_${tile.x}_${tile.y}`;
+  const cachedLandmarks = await storage.getCachedData(cacheKey);
+
+  if (cachedLandmarks) {
+    return cachedLandmarks;
+  }
+
+  const tileBounds = tileToBounds(tile);
+
+  try {
+    // Keep only results inside the tile so neighbouring tiles don't overlap
+    const landmarks = (await source.fetchLandmarks(tileBounds, lang)).filter((landmark) =>
+      containsPoint(tileBounds, landmark.lat, landmark.lon)
+    );
+    await storage.cacheData(cacheKey, landmarks, Date.now() + TILE_CACHE_EXPIRY_TIME);
+
+    return landmarks;
+  } catch (error) {
+    console.error(`Error fetching ${source.name} landmarks for tile ${tile.z}/${tile.x}/${tile.y}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Merge landmark lists from several sources, earlier lists taking precedence.
+ * Landmarks are the same place when they share a Wikidata item, or when landmarks from
+ * different sources are close together with similar names. Duplicates fill in details
+ * the kept landmark is missing.
+ */
+export function mergeLandmarks(landmarkLists: Landmark[][]): Landmark[] {
+  const merged: Landmark[] = [];
+  const seenPageIds = new Set<number>();
+  const byWikidata = new Map<string, Landmark>();
+  const grid = new Map<string, Landmark[]>();
+
+  landmarkLists.forEach((landmarks) => {
+    landmarks.forEach((landmark) => {
+      if (seenPageIds.has(landmark.pageid)) {
+        return;
+      }
+      seenPageIds.add(landmark.pageid);
+
+      const duplicate =
+        (landmark.wikidata && byWikidata.get(landmark.wikidata)) || findNearbySamePlace(grid, landmark);
+
+      if (duplicate) {
+        duplicate.description = duplicate.description || landmark.description;
+        duplicate.thumbnail = duplicate.thumbnail || landmark.thumbnail;
+        duplicate.address = duplicate.address || landmark.address;
+        duplicate.facts = duplicate.facts?.length ? duplicate.facts : landmark.facts;
+        duplicate.notability = Math.max(duplicate.notability ?? 0, landmark.notability ?? 0);
+        if (!duplicate.category || duplicate.category === DEFAULT_CATEGORY) {
+          duplicate.category = landmark.category;
+        }
+        if (!duplicate.wikidata && landmark.wikidata) {
+          duplicate.wikidata = landmark.wikidata;
+          byWikidata.set(landmark.wikidata, duplicate);
+        }
+        return;
+      }
+
+      const entry = { ...landmark };
+      merged.push(entry);
+      if (entry.wikidata) {
+        byWikidata.set(entry.wikidata, entry);
+      }
+
+      const cellKey = gridCell(entry.lat, entry.lon).join(":");
+      grid.set(cellKey, [...(grid.get(cellKey) ?? []), entry]);
+    });
+  });
+
+  return merged;
+}
+
+function gridCell(lat: number, lon: number): [number, number] {
+  return [Math.floor(lat / GRID_CELL_SIZE), Math.floor(lon / GRID_CELL_SIZE)];
+}
+
+/**
+ * Find an already merged landmark from another source that is close by and similarly named
+ */
+function findNearbySamePlace(grid: Map<string, Landmark[]>, landmark: Landmark): Landmark | undefined {
+  const [row, col] = gridCell(landmark.lat, landmark.lon);
+
+  for (let dRow = -1; dRow <= 1; dRow++) {
+    for (let dCol = -1; dCol <= 1; dCol++) {
+      const match = grid.get(`${row + dRow}:${col + dCol}`)?.find(
+        (candidate) =>
+          candidate.source !== landmark.source &&
+          haversineDistance(candidate.lat, candidate.lon, landmark.lat, landmark.lon) <= SAME_PLACE_DISTANCE &&
+          nameSimilarity(candidate.title, landmark.title) >= NAME_SIMILARITY_THRESHOLD
+      );
+      if (match) {
+        return match;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Similarity of two names between 0 and 1 (Dice coefficient of character bigrams),
+ * ignoring case, accents and punctuation
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const normalize = (name: string) =>
+    name
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim();
+  const nameA = normalize(a);
+  const nameB = normalize(b);
+
+  if (nameA === nameB) {
+    return 1;
+  }
+  if (nameA.length < 2 || nameB.length < 2) {
+    return 0;
+  }
+
+  const bigrams = (name: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < name.length - 1; i++) {
+      const bigram = name.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const bigramsA = bigrams(nameA);
+  const bigramsB = bigrams(nameB);
+
+  let overlap = 0;
+  bigramsA.forEach((count, bigram) => {
+    overlap += Math.min(count, bigramsB.get(bigram) ?? 0);
+  });
+
+  return (2 * overlap) / (nameA.length - 1 + nameB.length - 1);
+}
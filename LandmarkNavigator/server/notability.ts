@@ -0,0 +1,39 @@
+// Weights of each signal in the notability score; they add up to 1
+const PAGEVIEWS_WEIGHT = 0.4;
+const SITELINKS_WEIGHT = 0.3;
+const LENGTH_WEIGHT = 0.2;
+const IMAGE_WEIGHT = 0.1;
+
+// Values at which a signal counts fully; anything above is capped
+const FULL_PAGEVIEWS = 100000; // Views over 30 days, e.g. a major city sight
+const FULL_SITELINKS = 100; // Pages about the item across Wikimedia projects
+const FULL_LENGTH = 100000; // Article size in bytes
+
+export interface NotabilitySignals {
+  pageviews?: number;
+  sitelinks?: number;
+  length?: number;
+  hasImage?: boolean;
+}
+
+/**
+ * Score how well known a landmark is, from 0 to 100.
+ * Counts are compared on a log scale so the difference between 10 and 100 views
+ * matters as much as between 10,000 and 100,000. Missing signals count as zero.
+ */
+export function notabilityScore({ pageviews, sitelinks, length, hasImage }: NotabilitySignals): number {
+  const score =
+    PAGEVIEWS_WEIGHT * logScale(pageviews, FULL_PAGEVIEWS) +
+    SITELINKS_WEIGHT * logScale(sitelinks, FULL_SITELINKS) +
+    LENGTH_WEIGHT * logScale(length, FULL_LENGTH) +
+    IMAGE_WEIGHT * (hasImage ? 1 : 0);
+
+  return Math.round(score * 100);
+}
+
+function logScale(value: number | undefined, full: number): number {
+  if (!value || value <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.log10(value + 1) / Math.log10(full + 1));
+}
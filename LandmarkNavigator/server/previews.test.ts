@@ -0,0 +1,89 @@
+import type { Request } from "express";
+import { injectLandmarkPreview } from "./previews";
+import { storage } from "./storage";
+
+const indexHtml = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta name="description" content="Explore landmarks around the world with Landmark Explorer." />
+    <meta property="og:title" content="Landmark Explorer" />
+    <meta property="og:url" content="https://yourwebsite.com" />
+    <title>Landmark Explorer</title>
+  </head>
+  <body></body>
+</html>`;
+
+const eiffelTower = {
+  pageid: 9232,
+  title: "Eiffel Tower",
+  description: "Wrought-iron lattice tower on the Champ de Mars in Paris",
+  lat: 48.8584,
+  lon: 2.2945,
+  lang: "en",
+  thumbnail: "https://upload.wikimedia.org/eiffel-tower.jpg",
+  updatedAt: 1,
+};
+
+/**
+ * A request for the given URL, as a spoofed Host header would send it
+ */
+function request(originalUrl: string): Request {
+  const query = Object.fromEntries(new URL(originalUrl, "http://localhost").searchParams);
+  return { originalUrl, query, protocol: "https", get: () => "attacker.example" } as unknown as Request;
+}
+
+const metaContent = (html: string, key: string) =>
+  new RegExp(`<meta (?:name|property)="${key}" content="([^"]*)" />`).exec(html)?.[1];
+
+beforeEach(() => {
+  jest.spyOn(storage, "getLandmark").mockResolvedValue(eiffelTower);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("injectLandmarkPreview", () => {
+  it("describes the linked landmark", async () => {
+    const html = await injectLandmarkPreview(indexHtml, request("/landmark/9232"), "https://landmarks.example.com");
+
+    expect(html).toContain("<title>Eiffel Tower - Landmark Explorer</title>");
+    expect(metaContent(html, "description")).toBe(eiffelTower.description);
+    expect(metaContent(html, "og:title")).toBe("Eiffel Tower");
+    expect(metaContent(html, "og:image")).toBe(eiffelTower.thumbnail);
+    expect(metaContent(html, "place:location:latitude")).toBe("48.8584");
+    expect(metaContent(html, "twitter:card")).toBe("summary_large_image");
+    // Replaced in place rather than added a second time
+    expect(html.match(/og:title/g)).toHaveLength(1);
+  });
+
+  it("builds og:url from the public base URL, not the Host header", async () => {
+    const html = await injectLandmarkPreview(indexHtml, request("/landmark/9232?lang=en"), "https://landmarks.example.com/");
+
+    expect(metaContent(html, "og:url")).toBe("https://landmarks.example.com/landmark/9232?lang=en");
+    expect(html).not.toContain("attacker.example");
+  });
+
+  it("leaves out og:url without a public base URL", async () => {
+    const html = await injectLandmarkPreview(indexHtml, request("/landmark/9232"), undefined);
+
+    expect(html).not.toContain("og:url");
+    expect(html).not.toContain("attacker.example");
+  });
+
+  it("escapes landmark text in the tags", async () => {
+    jest.spyOn(storage, "getLandmark").mockResolvedValue({ ...eiffelTower, title: `"><script>alert(1)</script>` });
+
+    const html = await injectLandmarkPreview(indexHtml, request("/landmark/9232"), undefined);
+
+    expect(html).not.toContain("<script>");
+    expect(metaContent(html, "og:title")).toBe("&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+
+  it("keeps the generic tags for other pages and landmarks not stored", async () => {
+    jest.spyOn(storage, "getLandmark").mockResolvedValue(null);
+
+    expect(await injectLandmarkPreview(indexHtml, request("/"), "https://landmarks.example.com")).toBe(indexHtml);
+    expect(await injectLandmarkPreview(indexHtml, request("/landmark/1"), "https://landmarks.example.com")).toBe(indexHtml);
+  });
+});
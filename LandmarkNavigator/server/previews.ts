@@ -0,0 +1,103 @@
+import { type Request } from "express";
+import { storage } from "./storage";
+import { Landmark } from "@/types";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGE_CODES } from "@shared/languages";
+
+const LANDMARK_PATH = /^\/landmark\/(-?\d+)\/?(?:\?|$)/;
+const MAX_DESCRIPTION_LENGTH = 200; // Link previews cut longer descriptions anyway
+const SITE_NAME = "Landmark Explorer";
+
+/**
+ * Add Open Graph and Twitter card tags describing the linked landmark to the app's index.html,
+ * so shared /landmark/:pageid links get a rich preview. Only stored landmarks are used; other
+ * pages, and landmarks not loaded yet, keep the generic tags. og:url comes from the configured public
+ * base URL, not the client-controlled Host header, and is left out when none is configured.
+ */
+export async function injectLandmarkPreview(
+  html: string,
+  req: Request,
+  publicBaseUrl: string | undefined = process.env.PUBLIC_BASE_URL
+): Promise<string> {
+  const match = LANDMARK_PATH.exec(req.originalUrl);
+  if (!match) {
+    return html;
+  }
+
+  const pageid = parseInt(match[1], 10);
+  const lang = typeof req.query.lang === "string" && SUPPORTED_LANGUAGE_CODES.includes(req.query.lang)
+    ? req.query.lang
+    : DEFAULT_LANGUAGE;
+
+  let landmark: Landmark | null = null;
+  try {
+    landmark = await storage.getLandmark(pageid, lang);
+  } catch (error) {
+    console.error("Error loading landmark for link preview:", error);
+  }
+  if (!landmark) {
+    return html;
+  }
+
+  const title = `${landmark.title} - ${SITE_NAME}`;
+  const description = truncate(landmark.description || `${landmark.title} on ${SITE_NAME}`, MAX_DESCRIPTION_LENGTH);
+
+  html = html.replace(/<title>[\s\S]*?<\/title>/, `<title>${escapeHtml(title)}</title>`);
+  html = setMetaTag(html, "name", "description", description);
+  html = setMetaTag(html, "property", "og:type", "place");
+  html = setMetaTag(html, "property", "og:site_name", SITE_NAME);
+  html = setMetaTag(html, "property", "og:title", landmark.title);
+  html = setMetaTag(html, "property", "og:description", description);
+  html = publicBaseUrl
+    ? setMetaTag(html, "property", "og:url", `${publicBaseUrl.replace(/\/+$/, "")}${req.originalUrl}`)
+    : removeMetaTag(html, "property", "og:url");
+  html = setMetaTag(html, "property", "place:location:latitude", landmark.lat.toString());
+  html = setMetaTag(html, "property", "place:location:longitude", landmark.lon.toString());
+  html = setMetaTag(html, "name", "twitter:title", landmark.title);
+  html = setMetaTag(html, "name", "twitter:description", description);
+  if (landmark.thumbnail) {
+    html = setMetaTag(html, "property", "og:image", landmark.thumbnail);
+    html = setMetaTag(html, "property", "og:image:alt", landmark.title);
+    html = setMetaTag(html, "name", "twitter:image", landmark.thumbnail);
+    html = setMetaTag(html, "name", "twitter:card", "summary_large_image");
+  } else {
+    html = setMetaTag(html, "name", "twitter:card", "summary");
+  }
+
+  return html;
+}
+
+/**
+ * Replace the content of a meta tag, adding the tag to the head if it isn't there yet
+ */
+function setMetaTag(html: string, attribute: "name" | "property", key: string, content: string): string {
+  const tag = `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`;
+  const existing = new RegExp(`<meta\\s+${attribute}="${escapeRegExp(key)}"[^>]*>`);
+
+  if (existing.test(html)) {
+    return html.replace(existing, () => tag);
+  }
+  return html.replace("</head>", () => `    ${tag}\n  </head>`);
+}
+
+/**
+ * Remove a meta tag from the head, along with the line it is on
+ */
+function removeMetaTag(html: string, attribute: "name" | "property", key: string): string {
+  return html.replace(new RegExp(`[ \\t]*<meta\\s+${attribute}="${escapeRegExp(key)}"[^>]*>\\n?`), "");
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,170 @@
+import { TimeoutError } from "./circuit-breaker";
+import { QueueFullError, RateLimitedQueue } from "./queue";
+
+/**
+ * Task that stays running until released, so queued tasks pile up behind it
+ */
+function blockingTask() {
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { run: () => done, release };
+}
+
+describe("RateLimitedQueue", () => {
+  it("runs tasks one at a time in the order they were queued", async () => {
+    const queue = new RateLimitedQueue(0);
+    const order: number[] = [];
+
+    await Promise.all([1, 2, 3].map((n) => queue.schedule(async () => order.push(n))));
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("leaves the minimum interval between task starts", async () => {
+    const queue = new RateLimitedQueue(50);
+    const starts: number[] = [];
+
+    await Promise.all([1, 2, 3].map(() => queue.schedule(async () => starts.push(Date.now()))));
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(45);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(45);
+  });
+
+  it("runs priority tasks ahead of background work, in the order they were queued", async () => {
+    const queue = new RateLimitedQueue(0);
+    const blocker = blockingTask();
+    const order: string[] = [];
+
+    const running = queue.schedule(blocker.run);
+    const scheduled = [
+      queue.schedule(async () => order.push("background 1")),
+      queue.schedule(async () => order.push("priority 1"), { priority: true }),
+      queue.schedule(async () => order.push("background 2")),
+      queue.schedule(async () => order.push("priority 2"), { priority: true }),
+    ];
+    blocker.release();
+    await Promise.all([running, ...scheduled]);
+
+    expect(order).toEqual(["priority 1", "priority 2", "background 1", "background 2"]);
+  });
+
+  it("refuses background tasks once maxPending are queued", async () => {
+    const queue = new RateLimitedQueue(0, 2);
+    const blocker = blockingTask();
+
+    const running = queue.schedule(blocker.run);
+    const queued = [queue.schedule(async () => 1), queue.schedule(async () => 2)];
+
+    await expect(queue.schedule(async () => 3)).rejects.toBeInstanceOf(QueueFullError);
+    blocker.release();
+    await expect(Promise.all([running, ...queued])).resolves.toEqual([undefined, 1, 2]);
+  });
+
+  it("accepts priority tasks while background work fills the queue", async () => {
+    const queue = new RateLimitedQueue(0, 2);
+    const blocker = blockingTask();
+
+    const running = queue.schedule(blocker.run);
+    const queued = [queue.schedule(async () => 1), queue.schedule(async () => 2)];
+    const priority = queue.schedule(async () => "user lookup", { priority: true });
+
+    expect(queue.size).toBe(3);
+    blocker.release();
+    await expect(priority).resolves.toBe("user lookup");
+    await Promise.all([running, ...queued]);
+  });
+
+  it("accepts background tasks again once queued ones start", async () => {
+    const queue = new RateLimitedQueue(0, 1);
+
+    await queue.schedule(async () => 1);
+    await expect(queue.schedule(async () => 2)).resolves.toBe(2);
+  });
+
+  it("passes task failures to the caller and keeps going", async () => {
+    const queue = new RateLimitedQueue(0);
+
+    const failing = queue.schedule(async () => {
+      throw new Error("upstream error");
+    });
+    const next = queue.schedule(async () => "next");
+
+    await expect(failing).rejects.toThrow("upstream error");
+    await expect(next).resolves.toBe("next");
+  });
+
+  it("rejects a task that runs past the time limit, aborts it and moves on", async () => {
+    const queue = new RateLimitedQueue(0, Infinity, 50);
+    let taskSignal: AbortSignal | undefined;
+
+    // Never settles, like a request to a server that stopped answering
+    const hung = queue.schedule((signal) => {
+      taskSignal = signal;
+      return new Promise(() => {});
+    });
+    const next = queue.schedule(async () => "next");
+
+    await expect(hung).rejects.toBeInstanceOf(TimeoutError);
+    expect(taskSignal?.aborted).toBe(true);
+    await expect(next).resolves.toBe("next");
+  });
+
+  it("leaves tasks that finish in time alone", async () => {
+    const queue = new RateLimitedQueue(0, Infinity, 1000);
+    let taskSignal: AbortSignal | undefined;
+
+    await expect(queue.schedule(async (signal) => {
+      taskSignal = signal;
+      return "done";
+    })).resolves.toBe("done");
+    expect(taskSignal?.aborted).toBe(false);
+  });
+
+  it("takes a task aborted by its caller off the queue before it starts", async () => {
+    const queue = new RateLimitedQueue(0, 1);
+    const blocker = blockingTask();
+    const controller = new AbortController();
+    const run = jest.fn(async () => "never");
+
+    const running = queue.schedule(blocker.run);
+    const aborted = queue.schedule(run, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    expect(queue.size).toBe(0);
+    // Its background slot is free again
+    const next = queue.schedule(async () => "next");
+    blocker.release();
+    await expect(next).resolves.toBe("next");
+    await running;
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("aborts a running task when its caller does and moves on", async () => {
+    const queue = new RateLimitedQueue(0);
+    const controller = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+
+    const hung = queue.schedule((signal) => {
+      taskSignal = signal;
+      return new Promise(() => {});
+    }, { signal: controller.signal });
+    const next = queue.schedule(async () => "next");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(hung).rejects.toMatchObject({ name: "AbortError" });
+    expect(taskSignal?.aborted).toBe(true);
+    await expect(next).resolves.toBe("next");
+  });
+
+  it("refuses a task whose caller has already given up", async () => {
+    const queue = new RateLimitedQueue(0);
+    const run = jest.fn(async () => "never");
+
+    await expect(queue.schedule(run, { signal: AbortSignal.abort() })).rejects.toMatchObject({ name: "AbortError" });
+    expect(run).not.toHaveBeenCalled();
+  });
+});
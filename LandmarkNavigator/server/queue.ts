@@ -0,0 +1,156 @@
+import { TimeoutError } from "./circuit-breaker";
+
+/**
+ * Error thrown when a task is scheduled on a queue that is already full
+ */
+export class QueueFullError extends Error {
+  constructor(message: string = "Queue is full.") {
+    super(message);
+    this.name = "QueueFullError";
+  }
+}
+
+interface QueuedTask {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  priority: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs async tasks one at a time, leaving at least minIntervalMs between task starts.
+ * Used to respect upstream usage policies such as Nominatim's 1 request per second.
+ * A task still running after taskTimeoutMs is aborted and rejected so it cannot stall the queue.
+ */
+export class RateLimitedQueue {
+  private tasks: QueuedTask[] = [];
+  private backgroundTasks = 0;
+  private draining = false;
+  private lastStart = 0;
+
+  /**
+   * @param minIntervalMs Minimum time between task starts
+   * @param maxPending Maximum number of queued background tasks; priority tasks are never refused
+   * @param taskTimeoutMs Time a task may run before it is aborted
+   */
+  constructor(
+    private minIntervalMs: number,
+    private maxPending: number = Infinity,
+    private taskTimeoutMs: number = Infinity
+  ) {}
+
+  get size(): number {
+    return this.tasks.length;
+  }
+
+  /**
+   * Queue a task. Priority tasks (e.g. a user waiting on the result) jump ahead of background work.
+   * The task is given a signal that is aborted when it runs past the queue's time limit, or when
+   * the caller aborts options.signal; a task aborted before it starts is taken off the queue.
+   */
+  schedule<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    options: { priority?: boolean; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const { priority = false, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (!priority && this.backgroundTasks >= this.maxPending) {
+      return Promise.reject(new QueueFullError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const task: QueuedTask = { run, resolve, reject, priority, signal };
+      if (priority) {
+        // Behind earlier priority tasks, ahead of all background work
+        const index = this.tasks.findIndex((queued) => !queued.priority);
+        this.tasks.splice(index === -1 ? this.tasks.length : index, 0, task);
+      } else {
+        this.backgroundTasks++;
+        this.tasks.push(task);
+      }
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (this.remove(task)) {
+            reject(signal.reason);
+          }
+        },
+        { once: true }
+      );
+      this.drain();
+    });
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    while (this.tasks.length > 0) {
+      const wait = this.lastStart + this.minIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      const task = this.tasks[0];
+      if (!task) {
+        break; // Everything still waiting was aborted during the wait
+      }
+      this.remove(task);
+      this.lastStart = Date.now();
+      await this.runTask(task);
+    }
+
+    this.draining = false;
+  }
+
+  /**
+   * Take a task off the queue, returning whether it was still waiting
+   */
+  private remove(task: QueuedTask): boolean {
+    const index = this.tasks.indexOf(task);
+    if (index === -1) {
+      return false;
+    }
+    this.tasks.splice(index, 1);
+    if (!task.priority) {
+      this.backgroundTasks--;
+    }
+    return true;
+  }
+
+  private async runTask(task: QueuedTask): Promise<void> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort = () => {};
+    // Settles only when the task is given up on, so a hung task cannot hold up the queue
+    const cancelled = new Promise<never>((_, reject) => {
+      const cancel = (reason: unknown) => {
+        reject(reason);
+        controller.abort();
+      };
+      if (Number.isFinite(this.taskTimeoutMs)) {
+        timer = setTimeout(
+          () => cancel(new TimeoutError(`Task timed out after ${this.taskTimeoutMs}ms.`)),
+          this.taskTimeoutMs
+        );
+      }
+      onAbort = () => cancel(task.signal!.reason);
+      task.signal?.addEventListener("abort", onAbort);
+    });
+
+    try {
+      task.resolve(await Promise.race([task.run(controller.signal), cancelled]));
+    } catch (error) {
+      task.reject(error);
+    } finally {
+      clearTimeout(timer);
+      task.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { lookupAddress } from "./addresses";
+import { fetchRoute } from "./api/osrm";
+import { fetchLangLinks } from "./api/wikipedia";
+import { getLandmark } from "./landmarks";
+import { registerRoutes } from "./routes";
+
+// Every test request comes from the same address, so keep the rate limit out of the way
+jest.mock("express-rate-limit", () => () => (_req: unknown, _res: unknown, next: () => void) => next(), { virtual: true });
+jest.mock("./landmarks", () => ({
+  ...jest.requireActual("./landmarks"),
+  getLandmark: jest.fn(),
+}));
+jest.mock("./addresses", () => ({
+  ...jest.requireActual("./addresses"),
+  lookupAddress: jest.fn(),
+}));
+jest.mock("./api/wikipedia", () => ({
+  ...jest.requireActual("./api/wikipedia"),
+  fetchLangLinks: jest.fn(),
+}));
+jest.mock("./api/osrm", () => ({
+  ...jest.requireActual("./api/osrm"),
+  fetchRoute: jest.fn(),
+}));
+
+const getLandmarkMock = getLandmark as jest.MockedFunction<typeof getLandmark>;
+const lookupAddressMock = lookupAddress as jest.MockedFunction<typeof lookupAddress>;
+const fetchRouteMock = fetchRoute as jest.MockedFunction<typeof fetchRoute>;
+const fetchLangLinksMock = fetchLangLinks as jest.MockedFunction<typeof fetchLangLinks>;
+
+const eiffelTower = { pageid: 9232, title: "Eiffel Tower", lat: 48.8584, lon: 2.2945, lang: "en" };
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * GET a path from the test server, returning the status and parsed body
+ */
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+});
+
+describe("GET /api/landmarks/:pageid", () => {
+  it("returns the landmark", async () => {
+    getLandmarkMock.mockResolvedValue(eiffelTower);
+
+    expect(await get("/api/landmarks/9232?lang=en")).toEqual({ status: 200, body: eiffelTower });
+    expect(getLandmarkMock).toHaveBeenCalledWith(9232, "en");
+  });
+
+  it("returns 404 for a landmark that doesn't exist", async () => {
+    getLandmarkMock.mockResolvedValue(null);
+
+    expect((await get("/api/landmarks/9232")).status).toBe(404);
+  });
+
+  it.each([
+    ["a page ID that isn't a number", "/api/landmarks/eiffel"],
+    ["page ID 0", "/api/landmarks/0"],
+    ["an unsupported language", "/api/landmarks/9232?lang=xx"],
+  ])("returns 400 for %s", async (_case, path) => {
+    const { status, body } = await get(path);
+
+    expect(status).toBe(400);
+    expect(body.message).toBe("Invalid page ID or language");
+    expect(getLandmarkMock).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/landmarks/:pageid/langlinks", () => {
+  it("returns the links to other languages", async () => {
+    const links = [{ lang: "fr", title: "Tour Eiffel", url: "https://fr.wikipedia.org/wiki/Tour_Eiffel" }];
+    fetchLangLinksMock.mockResolvedValue(links);
+
+    expect(await get("/api/landmarks/9232/langlinks?lang=en")).toEqual({ status: 200, body: links });
+  });
+
+  it.each([
+    ["a page ID that isn't a number", "/api/landmarks/eiffel/langlinks"],
+    ["a page ID of a landmark not from Wikipedia", "/api/landmarks/-42/langlinks"],
+    ["an unsupported language", "/api/landmarks/9232/langlinks?lang=xx"],
+  ])("returns 400 for %s", async (_case, path) => {
+    expect(await get(path)).toEqual({ status: 400, body: { message: "Invalid page ID or language" } });
+    expect(fetchLangLinksMock).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/geocode", () => {
+  it("returns 400 without a query", async () => {
+    expect(await get("/api/geocode?q=")).toEqual({ status: 400, body: { message: "Invalid search query" } });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/reverse-geocode", () => {
+  it.each([
+    ["missing coordinates", "/api/reverse-geocode"],
+    ["a latitude out of range", "/api/reverse-geocode?lat=95&lon=2.29"],
+  ])("returns 400 for %s", async (_case, path) => {
+    expect(await get(path)).toEqual({ status: 400, body: { message: "Invalid coordinates" } });
+    expect(lookupAddressMock).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/route", () => {
+  const endpoints = "fromLat=48.8584&fromLon=2.2945&toLat=48.8606&toLon=2.3376";
+
+  it.each([
+    ["a missing destination", "/api/route?fromLat=48.8584&fromLon=2.2945"],
+    ["an unknown travel mode", `/api/route?${endpoints}&mode=fly`],
+  ])("returns 400 for %s", async (_case, path) => {
+    expect(await get(path)).toEqual({ status: 400, body: { message: "Invalid route endpoints or travel mode" } });
+    expect(fetchRouteMock).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("returns 500 when the routing service fails", async () => {
+    fetchRouteMock.mockRejectedValue(new Error("socket hang up"));
+
+    expect(await get(`/api/route?${endpoints}`)).toEqual({ status: 500, body: { message: "Failed to fetch route" } });
+  });
+});
@@ -1,28 +1,156 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { fetchLandmarks, fetchLandmarkDetails, searchWikipedia } from "./api/wikipedia";
-import axios from "axios";
+import { fetchLangLinks } from "./api/wikipedia";
+import { getLandmark } from "./landmarks";
+import { getViewLandmarks } from "./views";
+import { clusterViewLandmarks } from "@shared/clusters";
+import { lookupAddress } from "./addresses";
+import { geocode } from "./geocode";
+import { fetchRoute, NoRouteError } from "./api/osrm";
+import { accountIdForSyncCode, createSyncCode, latestRecords } from "./bookmarks";
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGE_CODES } from "@shared/languages";
+import { DEFAULT_CATEGORY, LANDMARK_CATEGORY_IDS } from "@shared/categories";
+import type { TileBounds } from "@shared/tiles";
 import rateLimit from "express-rate-limit";
 import { z } from "zod";
+import { BOOKMARK_RECORD_KINDS, BookmarkSyncResponse, bookmarkRecordSchema } from "@shared/bookmarks";
 
 // Constants
-const CACHE_EXPIRY_TIME = 1000 * 60 * 15; // 15 minutes
-const NOMINATIM_API_URL = "https://nominatim.openstreetmap.org/search";
-const USER_AGENT = "LandmarkExplorer/1.0";
+const LANGLINKS_CACHE_EXPIRY_TIME = 1000 * 60 * 60 * 24; // 1 day
+const MAX_ZOOM = 19;
+const GEOCODE_CACHE_EXPIRY_TIME = 1000 * 60 * 60 * 24; // 1 day
+const ROUTE_CACHE_EXPIRY_TIME = 1000 * 60 * 60; // 1 hour
+const ROUTE_COORDINATE_PRECISION = 4; // Decimal places kept in route cache keys (about 11 m)
+const MAX_SYNC_RECORDS = 1000; // Records accepted in one bookmark sync request
+const MAX_BOUNDS_SPAN = 10; // Degrees of latitude and longitude served per view; larger views are clamped
 
 // Input validation schemas
-const boundsSchema = z.object({
+const languageSchema = z
+  .enum(SUPPORTED_LANGUAGE_CODES as [string, ...string[]])
+  .default(DEFAULT_LANGUAGE);
+
+const boundsFields = z.object({
   north: z.number().min(-90).max(90),
   south: z.number().min(-90).max(90),
   east: z.number().min(-180).max(180),
   west: z.number().min(-180).max(180),
+  zoom: z.number().int().min(0).max(MAX_ZOOM).optional(),
+  lang: languageSchema,
 });
 
+const boundsSchema = boundsFields
+  .refine(isOrderedBounds, "North and east must not be below south and west")
+  .transform(clampBoundsSpan);
+
+const clusterQuerySchema = boundsFields
+  .extend({
+    zoom: z.number().int().min(0).max(MAX_ZOOM),
+    categories: z.array(z.enum(LANDMARK_CATEGORY_IDS as [string, ...string[]])).optional(),
+  })
+  .refine(isOrderedBounds, "North and east must not be below south and west")
+  .transform(clampBoundsSpan);
+
 const querySchema = z.object({
   q: z.string().min(1, "Query parameter is required"),
+  lang: languageSchema,
+  limit: z.number().int().min(1).max(10).default(5),
+});
+
+const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  lang: languageSchema,
+});
+
+const routeQuerySchema = z.object({
+  fromLat: z.number().min(-90).max(90),
+  fromLon: z.number().min(-180).max(180),
+  toLat: z.number().min(-90).max(90),
+  toLon: z.number().min(-180).max(180),
+  mode: z.enum(["walk", "bike", "drive"]).default("walk"),
+});
+
+const bookmarkSyncSchema = z.object({
+  records: z.array(bookmarkRecordSchema).max(MAX_SYNC_RECORDS).default([]),
+  since: z.number().int().nonnegative().default(0),
 });
 
+const bookmarkChangeSchema = z.object({
+  kind: z.enum(BOOKMARK_RECORD_KINDS),
+  key: z.string().min(1).max(100),
+  updatedAt: z.number().int().nonnegative(),
+});
+
+const pageSchema = z.object({
+  pageid: z.number().int().positive(),
+  lang: languageSchema,
+});
+
+// Landmarks from sources other than Wikipedia have negative page IDs
+const landmarkSchema = pageSchema.extend({
+  pageid: z.number().int().refine((pageid) => pageid !== 0, "Invalid page ID"),
+});
+
+/**
+ * Bookmark account of the request, from the sync code in its "Authorization: Bearer" header
+ */
+async function getBookmarkAccountId(req: Request): Promise<string | null> {
+  const [scheme, code] = (req.headers.authorization ?? "").split(" ");
+  if (scheme !== "Bearer" || !code) {
+    return null;
+  }
+
+  const accountId = accountIdForSyncCode(code);
+  return (await storage.hasBookmarkAccount(accountId)) ? accountId : null;
+}
+
+function isOrderedBounds(bounds: TileBounds): boolean {
+  return bounds.north >= bounds.south && bounds.east >= bounds.west;
+}
+
+/**
+ * Shrink bounds wider or taller than MAX_BOUNDS_SPAN to that span around their center
+ */
+function clampBoundsSpan<T extends TileBounds>(bounds: T): T {
+  const clampSpan = (min: number, max: number) => {
+    if (max - min <= MAX_BOUNDS_SPAN) {
+      return [min, max];
+    }
+    const center = (min + max) / 2;
+    return [center - MAX_BOUNDS_SPAN / 2, center + MAX_BOUNDS_SPAN / 2];
+  };
+  const [south, north] = clampSpan(bounds.south, bounds.north);
+  const [west, east] = clampSpan(bounds.west, bounds.east);
+  return { ...bounds, north, south, east, west };
+}
+
+/**
+ * Estimate the map zoom level at which the bounds span roughly one screen width
+ */
+function zoomForBounds(bounds: TileBounds): number {
+  const lonSpan = Math.max(bounds.east - bounds.west, 1e-6);
+  const zoom = Math.floor(Math.log2((360 / lonSpan) * 4)); // About four 256px tiles across
+  return Math.max(0, Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Read map bounds and zoom from query string parameters
+ */
+function parseBoundsQuery(query: Request["query"]) {
+  return {
+    north: parseFloat(query.north as string),
+    south: parseFloat(query.south as string),
+    east: parseFloat(query.east as string),
+    west: parseFloat(query.west as string),
+    zoom: query.zoom !== undefined ? Number(query.zoom) : undefined,
+    lang: query.lang as string | undefined,
+    categories: typeof query.categories === "string" && query.categories
+      ? query.categories.split(",")
+      : undefined,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Rate limiting middleware
   const limiter = rateLimit({
@@ -37,100 +165,306 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/landmarks", async (req, res) => {
     try {
       // Validate input bounds
-      const { north, south, east, west } = boundsSchema.parse({
-        north: parseFloat(req.query.north as string),
-        south: parseFloat(req.query.south as string),
-        east: parseFloat(req.query.east as string),
-        west: parseFloat(req.query.west as string),
-      });
+      const { zoom, lang, ...bounds } = boundsSchema.parse(parseBoundsQuery(req.query));
+
+      res.json(await getViewLandmarks(bounds, zoom ?? zoomForBounds(bounds), lang));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid map bounds" });
+      }
+      console.error("Error fetching landmarks:", error);
+      res.status(500).json({ message: "Failed to fetch landmarks" });
+    }
+  });
 
-      // Get cached results first
-      const cacheKey = `landmarks_${north.toFixed(4)}_${south.toFixed(4)}_${east.toFixed(4)}_${west.toFixed(4)}`;
-      const cachedLandmarks = await storage.getCachedData(cacheKey);
-
-      if (cachedLandmarks) {
-        return res.json(cachedLandmarks);
-      }
-
-      // Fetch landmarks from Wikipedia
-      const landmarks = await fetchLandmarks(north, south, east, west);
-
-      // Get additional details for each landmark
-      const landmarksWithDetails = await Promise.all(
-        landmarks.map(async (landmark) => {
-          try {
-            const details = await fetchLandmarkDetails(landmark.pageid);
-            return {
-              ...landmark,
-              description: details.extract,
-              thumbnail: details.thumbnail?.source,
-            };
-          } catch (error) {
-            console.error(`Error fetching details for ${landmark.title}:`, error);
-            return landmark;
-          }
-        })
+  // Get landmark clusters within map bounds for the given zoom level
+  app.get("/api/landmarks/clusters", async (req, res) => {
+    try {
+      // Validate input bounds
+      const { zoom, lang, categories, ...bounds } = clusterQuerySchema.parse(parseBoundsQuery(req.query));
+
+      // Cluster only the landmarks in the selected categories, if any
+      const landmarks = (await getViewLandmarks(bounds, zoom, lang)).filter(
+        (landmark) => !categories || categories.includes(landmark.category ?? DEFAULT_CATEGORY)
       );
+      // The representatives are enough for clients; the members would repeat every landmark in view
+      res.json(clusterViewLandmarks(landmarks, zoom).map(({ members, ...cluster }) => cluster));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid map bounds" });
+      }
+      console.error("Error clustering landmarks:", error);
+      res.status(500).json({ message: "Failed to cluster landmarks" });
+    }
+  });
 
-      // Cache the results
-      await storage.cacheData(cacheKey, landmarksWithDetails, Date.now() + CACHE_EXPIRY_TIME);
+  // Get a single landmark by page ID
+  app.get("/api/landmarks/:pageid", async (req, res) => {
+    try {
+      const { pageid, lang } = landmarkSchema.parse({
+        pageid: Number(req.params.pageid),
+        lang: req.query.lang,
+      });
 
-      res.json(landmarksWithDetails);
+      const landmark = await getLandmark(pageid, lang);
+
+      if (!landmark) {
+        return res.status(404).json({ message: "Landmark not found" });
+      }
+
+      res.json(landmark);
     } catch (error) {
-      console.error("Error fetching landmarks:", error);
-      res.status(500).json({ message: "Failed to fetch landmarks" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page ID or language" });
+      }
+      console.error("Error fetching landmark:", error);
+      res.status(500).json({ message: "Failed to fetch landmark" });
+    }
+  });
+
+  // Get links to a landmark's article in other Wikipedia languages
+  app.get("/api/landmarks/:pageid/langlinks", async (req, res) => {
+    try {
+      const { pageid, lang } = pageSchema.parse({
+        pageid: Number(req.params.pageid),
+        lang: req.query.lang,
+      });
+
+      const cacheKey = `langlinks_${lang}_${pageid}`;
+      const cachedLangLinks = await storage.getCachedData(cacheKey);
+
+      if (cachedLangLinks) {
+        return res.json(cachedLangLinks);
+      }
+
+      const langLinks = await fetchLangLinks(pageid, lang);
+      await storage.cacheData(cacheKey, langLinks, Date.now() + LANGLINKS_CACHE_EXPIRY_TIME);
+
+      res.json(langLinks);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid page ID or language" });
+      }
+      console.error("Error fetching language links:", error);
+      res.status(500).json({ message: "Failed to fetch language links" });
+    }
+  });
+
+  // Report cache hit/miss ratios
+  app.get("/api/cache/stats", async (_req, res) => {
+    try {
+      res.json(await storage.getCacheStats());
+    } catch (error) {
+      console.error("Error reading cache stats:", error);
+      res.status(500).json({ message: "Failed to read cache stats" });
     }
   });
 
-  // Geocode locations
+  // Geocode locations, returning a ranked list of candidates
   app.get("/api/geocode", async (req, res) => {
     try {
       // Validate query parameter
-      const { q } = querySchema.parse({ q: req.query.q });
-
-      // Try to find location through Wikipedia first
-      try {
-        const wikiResults = await searchWikipedia(q);
-        if (wikiResults.length > 0) {
-          return res.json({
-            lat: wikiResults[0].lat,
-            lon: wikiResults[0].lon,
-            display_name: wikiResults[0].title,
-          });
-        }
-      } catch (error) {
-        console.error("Error searching Wikipedia:", error);
-        // Fall through to OSM if Wikipedia search fails
-      }
-
-      // Fall back to OpenStreetMap Nominatim API
-      const response = await axios.get(NOMINATIM_API_URL, {
-        params: {
-          q,
-          format: "json",
-          limit: 1,
-        },
-        headers: {
-          "User-Agent": USER_AGENT,
-        },
+      const { q, lang, limit } = querySchema.parse({
+        q: req.query.q,
+        lang: req.query.lang,
+        limit: req.query.limit !== undefined ? Number(req.query.limit) : undefined,
       });
 
-      if (response.data && response.data.length > 0) {
-        const location = response.data[0];
-        res.json({
-          lat: parseFloat(location.lat),
-          lon: parseFloat(location.lon),
-          display_name: location.display_name,
-        });
-      } else {
-        res.status(404).json({ message: "Location not found" });
+      const cacheKey = `geocode_${lang}_${limit}_${q.trim().toLowerCase()}`;
+      const cachedResults = await storage.getCachedData(cacheKey);
+
+      if (cachedResults) {
+        return res.json(cachedResults);
       }
+
+      const results = await geocode(q, lang, limit);
+      await storage.cacheData(cacheKey, results, Date.now() + GEOCODE_CACHE_EXPIRY_TIME);
+
+      res.json(results);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search query" });
+      }
       console.error("Error geocoding location:", error);
       res.status(500).json({ message: "Failed to geocode location" });
     }
   });
 
+  // Reverse geocode coordinates, cached and throttled on the server
+  app.get("/api/reverse-geocode", async (req, res) => {
+    try {
+      const { lat, lon, lang } = coordinatesSchema.parse({
+        lat: parseFloat(req.query.lat as string),
+        lon: parseFloat(req.query.lon as string),
+        lang: req.query.lang,
+      });
+
+      const result = await lookupAddress(lat, lon, lang, { priority: true });
+
+      if (result) {
+        res.json(result);
+      } else {
+        res.status(404).json({ message: "No address found" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coordinates" });
+      }
+      console.error("Error reverse geocoding location:", error);
+      res.status(500).json({ message: "Failed to reverse geocode location" });
+    }
+  });
+
+  // Route between two points for a travel mode, with turn-by-turn steps
+  app.get("/api/route", async (req, res) => {
+    try {
+      const { fromLat, fromLon, toLat, toLon, mode } = routeQuerySchema.parse({
+        fromLat: parseFloat(req.query.fromLat as string),
+        fromLon: parseFloat(req.query.fromLon as string),
+        toLat: parseFloat(req.query.toLat as string),
+        toLon: parseFloat(req.query.toLon as string),
+        mode: req.query.mode,
+      });
+
+      // Round the start so small moves of a tracked user reuse the cached route
+      const from: [number, number] = [
+        Number(fromLat.toFixed(ROUTE_COORDINATE_PRECISION)),
+        Number(fromLon.toFixed(ROUTE_COORDINATE_PRECISION)),
+      ];
+      const cacheKey = `route_${mode}_${from.join("_")}_${toLat}_${toLon}`;
+      const cachedRoute = await storage.getCachedData(cacheKey);
+
+      if (cachedRoute) {
+        return res.json(cachedRoute);
+      }
+
+      const route = await fetchRoute(from, [toLat, toLon], mode);
+      await storage.cacheData(cacheKey, route, Date.now() + ROUTE_CACHE_EXPIRY_TIME);
+
+      res.json(route);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid route endpoints or travel mode" });
+      }
+      if (error instanceof NoRouteError) {
+        return res.status(404).json({ message: "No route found" });
+      }
+      console.error("Error fetching route:", error);
+      res.status(500).json({ message: "Failed to fetch route" });
+    }
+  });
+
+  // Create an anonymous bookmark account; the returned sync code links devices to it
+  app.post("/api/bookmarks/accounts", async (_req, res) => {
+    try {
+      const code = createSyncCode();
+      await storage.createBookmarkAccount(accountIdForSyncCode(code));
+      res.status(201).json({ code });
+    } catch (error) {
+      console.error("Error creating bookmark account:", error);
+      res.status(500).json({ message: "Failed to create bookmark account" });
+    }
+  });
+
+  // Get an account's bookmarks and collections, including deletions, changed since a server time
+  app.get("/api/bookmarks", async (req, res) => {
+    try {
+      const accountId = await getBookmarkAccountId(req);
+      if (!accountId) {
+        return res.status(401).json({ message: "Invalid sync code" });
+      }
+
+      const { since } = bookmarkSyncSchema.parse({
+        since: req.query.since !== undefined ? Number(req.query.since) : undefined,
+      });
+
+      const serverTime = Date.now();
+      const response: BookmarkSyncResponse = {
+        // Rows stored under a bookmark's old page-ID-only key share its key once upgraded
+        records: latestRecords(await storage.getBookmarkRecords(accountId, since)),
+        serverTime,
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sync time" });
+      }
+      console.error("Error fetching bookmarks:", error);
+      res.status(500).json({ message: "Failed to fetch bookmarks" });
+    }
+  });
+
+  // Send local changes and get back everything changed on the server since the last sync
+  app.post("/api/bookmarks/sync", async (req, res) => {
+    try {
+      const accountId = await getBookmarkAccountId(req);
+      if (!accountId) {
+        return res.status(401).json({ message: "Invalid sync code" });
+      }
+
+      const { records, since } = bookmarkSyncSchema.parse(req.body ?? {});
+
+      // Read the clock first; changes stored from here on are returned again next time, never missed
+      const serverTime = Date.now();
+      await storage.putBookmarkRecords(accountId, latestRecords(records));
+      const response: BookmarkSyncResponse = {
+        records: latestRecords(await storage.getBookmarkRecords(accountId, since)),
+        serverTime,
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bookmark records" });
+      }
+      console.error("Error syncing bookmarks:", error);
+      res.status(500).json({ message: "Failed to sync bookmarks" });
+    }
+  });
+
+  // Create or update a single bookmark or collection; older changes than the stored one are ignored
+  app.put("/api/bookmarks/:kind/:key", async (req, res) => {
+    try {
+      const accountId = await getBookmarkAccountId(req);
+      if (!accountId) {
+        return res.status(401).json({ message: "Invalid sync code" });
+      }
+
+      const record = bookmarkRecordSchema.parse({ ...req.body, kind: req.params.kind, key: req.params.key });
+      await storage.putBookmarkRecords(accountId, [record]);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bookmark record" });
+      }
+      console.error("Error saving bookmark:", error);
+      res.status(500).json({ message: "Failed to save bookmark" });
+    }
+  });
+
+  // Delete a bookmark or collection, leaving a tombstone so the deletion reaches other devices
+  app.delete("/api/bookmarks/:kind/:key", async (req, res) => {
+    try {
+      const accountId = await getBookmarkAccountId(req);
+      if (!accountId) {
+        return res.status(401).json({ message: "Invalid sync code" });
+      }
+
+      const { kind, key, updatedAt } = bookmarkChangeSchema.parse({
+        kind: req.params.kind,
+        key: req.params.key,
+        updatedAt: req.query.updatedAt !== undefined ? Number(req.query.updatedAt) : Date.now(),
+      });
+      await storage.putBookmarkRecords(accountId, [{ kind, key, data: {}, updatedAt, deleted: true }]);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bookmark record" });
+      }
+      console.error("Error deleting bookmark:", error);
+      res.status(500).json({ message: "Failed to delete bookmark" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
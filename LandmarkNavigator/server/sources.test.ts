@@ -0,0 +1,77 @@
+import { fetchListings, WikivoyageListing } from "./api/wikivoyage";
+import { fetchWikidataDetails } from "./api/wikidata";
+import { WikivoyageSource } from "./sources";
+import { storage } from "./storage";
+
+jest.mock("./api/wikivoyage", () => ({
+  ...jest.requireActual("./api/wikivoyage"),
+  fetchListings: jest.fn(),
+}));
+jest.mock("./api/wikidata", () => ({
+  ...jest.requireActual("./api/wikidata"),
+  fetchWikidataDetails: jest.fn(),
+}));
+
+const fetchListingsMock = fetchListings as jest.MockedFunction<typeof fetchListings>;
+const fetchWikidataDetailsMock = fetchWikidataDetails as jest.MockedFunction<typeof fetchWikidataDetails>;
+
+const parisBounds = { north: 48.9, south: 48.8, east: 2.4, west: 2.2 };
+
+const listing = (name: string, lat: number, lon: number): WikivoyageListing => ({
+  articleId: 36434,
+  articleTitle: "Paris/7th arrondissement",
+  name,
+  lat,
+  lon,
+});
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  fetchWikidataDetailsMock.mockResolvedValue(new Map());
+});
+
+describe("WikivoyageSource", () => {
+  it("gives same-named listings of an article their own page IDs and stores them all", async () => {
+    // Two branches of the same museum chain in one district article
+    fetchListingsMock.mockResolvedValue([
+      listing("Musée Grévin", 48.8719, 2.3422),
+      listing("Musée Grévin", 48.8556, 2.3125),
+    ]);
+
+    const landmarks = await new WikivoyageSource().fetchLandmarks(parisBounds, "en");
+
+    expect(landmarks).toHaveLength(2);
+    expect(landmarks[0].pageid).not.toBe(landmarks[1].pageid);
+    for (const landmark of landmarks) {
+      expect(await storage.getLandmark(landmark.pageid, "en")).toMatchObject({ lat: landmark.lat, lon: landmark.lon });
+    }
+  });
+
+  it("keeps one landmark for a listing repeated within an article", async () => {
+    fetchListingsMock.mockResolvedValue([
+      listing("Eiffel Tower", 48.8584, 2.2945),
+      listing("Eiffel Tower", 48.8584, 2.2945),
+    ]);
+
+    const landmarks = await new WikivoyageSource().fetchLandmarks(parisBounds, "en");
+
+    expect(landmarks).toHaveLength(1);
+  });
+
+  it("keeps page IDs stable between fetches", async () => {
+    fetchListingsMock.mockResolvedValue([listing("Eiffel Tower", 48.8584, 2.2945)]);
+
+    const [first] = await new WikivoyageSource().fetchLandmarks(parisBounds, "en");
+    const [second] = await new WikivoyageSource().fetchLandmarks(parisBounds, "en");
+
+    expect(first.pageid).toBe(second.pageid);
+    expect(first.pageid).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,302 @@
+import { storage } from "./storage";
+import { fetchLandmark, fetchLandmarks, fetchLandmarkDetailsBatch } from "./api/wikipedia";
+import { fetchWikidataDetails } from "./api/wikidata";
+import { OverpassElement, fetchPointsOfInterest, osmElementUrl } from "./api/overpass";
+import { WIKIVOYAGE_LANGUAGES, fetchListings, wikivoyageBaseUrl } from "./api/wikivoyage";
+import { getCachedAddress, queueAddressLookups } from "./addresses";
+import { categorizeLandmark } from "./categories";
+import { notabilityScore } from "./notability";
+import { DEFAULT_CATEGORY } from "@shared/categories";
+import { Landmark, LandmarkSourceName, MapBounds } from "@/types";
+
+// Constants
+export const LANDMARK_FRESHNESS_TIME =
+  Number(process.env.LANDMARK_FRESHNESS_MS) || 1000 * 60 * 60 * 24 * 7; // 7 days
+const DEFAULT_SOURCES = "wikipedia";
+const THUMBNAIL_WIDTH = 320;
+
+export interface LandmarkSource {
+  readonly name: LandmarkSourceName;
+  fetchLandmarks(bounds: MapBounds, lang: string): Promise<Landmark[]>;
+}
+
+/**
+ * Wikipedia articles with coordinates, enriched with extracts, thumbnails, addresses and Wikidata facts
+ */
+export class WikipediaSource implements LandmarkSource {
+  readonly name = "wikipedia" as const;
+
+  async fetchLandmarks(bounds: MapBounds, lang: string): Promise<Landmark[]> {
+    const landmarks = await fetchLandmarks(bounds.north, bounds.south, bounds.east, bounds.west, lang);
+    return enrichWikipediaLandmarks(landmarks, bounds, lang);
+  }
+}
+
+/**
+ * Named tourist attractions and historic sites from OpenStreetMap
+ */
+export class OsmSource implements LandmarkSource {
+  readonly name = "osm" as const;
+
+  async fetchLandmarks(bounds: MapBounds, lang: string): Promise<Landmark[]> {
+    const elements = await fetchPointsOfInterest(bounds);
+
+    const landmarks = elements
+      .map((element) => toOsmLandmark(element, lang))
+      .filter((landmark): landmark is Landmark => landmark !== null);
+
+    return addWikidataDetails(landmarks, lang);
+  }
+}
+
+/**
+ * "See" and "do" listings from Wikivoyage destination articles
+ */
+export class WikivoyageSource implements LandmarkSource {
+  readonly name = "wikivoyage" as const;
+
+  async fetchLandmarks(bounds: MapBounds, lang: string): Promise<Landmark[]> {
+    if (!WIKIVOYAGE_LANGUAGES.includes(lang)) {
+      return [];
+    }
+
+    const listings = await fetchListings(bounds, lang);
+    const landmarks = listings.map((listing) => ({
+      // Articles can list several places with the same name, e.g. a chain's branches
+      pageid: syntheticPageId(this.name, `${listing.articleId}:${listing.name}:${listing.lat},${listing.lon}`),
+      title: listing.name,
+      lat: listing.lat,
+      lon: listing.lon,
+      lang,
+      source: this.name,
+      url: `${wikivoyageBaseUrl(lang)}/wiki/${encodeURIComponent(listing.articleTitle.replace(/ /g, "_"))}`,
+      description: listing.description,
+      address: listing.address,
+      thumbnail: listing.image
+        ? `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(listing.image)}?width=${THUMBNAIL_WIDTH}`
+        : undefined,
+      wikidata: listing.wikidata,
+      category: DEFAULT_CATEGORY,
+    }));
+
+    // The same listing repeated within an article is one place
+    const uniqueLandmarks = landmarks.filter(
+      (landmark, index) => landmarks.findIndex((other) => other.pageid === landmark.pageid) === index
+    );
+
+    return addWikidataDetails(uniqueLandmarks, lang);
+  }
+}
+
+/**
+ * Fetch and enrich a single Wikipedia page by ID, or null if it has no coordinates
+ */
+export async function fetchWikipediaLandmark(pageId: number, lang: string): Promise<Landmark | null> {
+  const landmark = await fetchLandmark(pageId, lang);
+  if (!landmark) {
+    return null;
+  }
+
+  const pointBounds = { north: landmark.lat, south: landmark.lat, east: landmark.lon, west: landmark.lon };
+  const [enriched] = await enrichWikipediaLandmarks([landmark], pointBounds, lang);
+  return enriched;
+}
+
+const SOURCE_FACTORIES: Record<string, () => LandmarkSource> = {
+  wikipedia: () => new WikipediaSource(),
+  osm: () => new OsmSource(),
+  wikivoyage: () => new WikivoyageSource(),
+};
+
+/**
+ * Build the enabled landmark sources from a comma-separated list of names, e.g. "wikipedia,osm".
+ * The order sets precedence when the same place is found by several sources.
+ */
+export function createLandmarkSources(
+  sources: string = process.env.LANDMARK_SOURCES || DEFAULT_SOURCES
+): LandmarkSource[] {
+  const names = sources
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name, index, list) => name && list.indexOf(name) === index);
+
+  const landmarkSources: LandmarkSource[] = [];
+  names.forEach((name) => {
+    const factory = SOURCE_FACTORIES[name];
+    if (factory) {
+      landmarkSources.push(factory());
+    } else {
+      console.warn(`Ignoring unknown landmark source "${name}"`);
+    }
+  });
+
+  if (landmarkSources.length === 0) {
+    console.warn(`No valid landmark sources configured, using ${DEFAULT_SOURCES}`);
+    return createLandmarkSources(DEFAULT_SOURCES);
+  }
+
+  return landmarkSources;
+}
+
+/**
+ * Stable negative page ID for a landmark that has no Wikipedia page, so IDs never collide with real ones
+ */
+export function syntheticPageId(source: LandmarkSourceName, key: string): number {
+  // 53-bit string hash (cyrb53), large enough that collisions within a view are negligible
+  const text = `${source}:${key}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return -(4294967296 * (2097151 & h2) + (h1 >>> 0) + 1);
+}
+
+function toOsmLandmark(element: OverpassElement, lang: string): Landmark | null {
+  const tags = element.tags ?? {};
+  const lat = element.lat ?? element.center?.lat;
+  const lon = element.lon ?? element.center?.lon;
+  const title = tags[`name:${lang}`] || tags.name;
+
+  if (lat === undefined || lon === undefined || !title) {
+    return null;
+  }
+
+  const street = [tags["addr:street"], tags["addr:housenumber"]].filter(Boolean).join(" ");
+  const address = [street, tags["addr:city"]].filter(Boolean).join(", ");
+
+  return {
+    pageid: syntheticPageId("osm", `${element.type}/${element.id}`),
+    title,
+    lat,
+    lon,
+    lang,
+    source: "osm",
+    url: osmElementUrl(element),
+    description: tags[`description:${lang}`] || tags.description,
+    address: address || undefined,
+    wikidata: /^Q\d+$/.test(tags.wikidata ?? "") ? tags.wikidata : undefined,
+    category: categorizeLandmark({ osmTags: tags }),
+  };
+}
+
+/**
+ * Attach Wikidata facts and notability to landmarks that link to a Wikidata item, then store them.
+ * The item's class takes precedence over the category the source suggested.
+ */
+async function addWikidataDetails(landmarks: Landmark[], lang: string): Promise<Landmark[]> {
+  const wikidataIds = Array.from(
+    new Set(landmarks.map((landmark) => landmark.wikidata).filter((id): id is string => !!id))
+  );
+  const detailsById = await fetchWikidataDetails(wikidataIds, lang);
+
+  const landmarksWithDetails = landmarks.map((landmark) => {
+    const details = landmark.wikidata ? detailsById.get(landmark.wikidata) : undefined;
+    const wikidataCategory = categorizeLandmark({ instanceOf: details?.instanceOf });
+
+    return {
+      ...landmark,
+      facts: details?.facts,
+      category: wikidataCategory !== DEFAULT_CATEGORY ? wikidataCategory : landmark.category,
+      notability: notabilityScore({ sitelinks: details?.sitelinks, hasImage: !!landmark.thumbnail }),
+    };
+  });
+
+  // Stored so these landmarks can be looked up by their synthetic page ID later
+  try {
+    await storage.upsertLandmarks(landmarksWithDetails);
+  } catch (error) {
+    console.error("Error persisting landmarks:", error);
+  }
+
+  return landmarksWithDetails;
+}
+
+/**
+ * Add descriptions, thumbnails, addresses, categories, notability and Wikidata facts to geosearch results,
+ * reusing stored landmarks that are still fresh
+ */
+async function enrichWikipediaLandmarks(
+  landmarks: Landmark[],
+  bounds: MapBounds,
+  lang: string
+): Promise<Landmark[]> {
+  const storedLandmarks = await storage.getLandmarksInBounds(
+    bounds,
+    lang,
+    Date.now() - LANDMARK_FRESHNESS_TIME
+  );
+  const storedById = new Map(storedLandmarks.map((landmark) => [landmark.pageid, landmark]));
+
+  // Get additional details for landmarks that are new or stale
+  const staleIds = landmarks
+    .filter((landmark) => !storedById.has(landmark.pageid))
+    .map((landmark) => landmark.pageid);
+  const detailsById = await fetchLandmarkDetailsBatch(staleIds, lang);
+
+  // Look up facts and classes for the Wikidata items behind the new pages
+  const wikidataIds = Array.from(detailsById.values())
+    .map((details) => details.wikibaseItem)
+    .filter((id): id is string => !!id);
+  const wikidataById = await fetchWikidataDetails(wikidataIds, lang);
+
+  const enrichedLandmarks: Landmark[] = [];
+  const landmarksWithDetails = await Promise.all(
+    landmarks.map(async (landmark) => {
+      const stored = storedById.get(landmark.pageid);
+      if (stored) {
+        return { ...stored, distance: landmark.distance };
+      }
+
+      const details = detailsById.get(landmark.pageid);
+      if (!details) {
+        console.error(`No details available for ${landmark.title}`);
+        return landmark;
+      }
+
+      const wikidata = details.wikibaseItem ? wikidataById.get(details.wikibaseItem) : undefined;
+      const enriched = {
+        ...landmark,
+        description: details.extract,
+        thumbnail: details.thumbnail?.source,
+        address: await getCachedAddress(landmark.lat, landmark.lon, lang),
+        wikidata: details.wikibaseItem,
+        facts: wikidata?.facts,
+        category: categorizeLandmark({
+          instanceOf: wikidata?.instanceOf,
+          wikipediaCategories: details.categories,
+        }),
+        notability: notabilityScore({
+          pageviews: details.pageviews,
+          sitelinks: wikidata?.sitelinks,
+          length: details.length,
+          hasImage: !!details.thumbnail,
+        }),
+      };
+      enrichedLandmarks.push(enriched);
+      return enriched;
+    })
+  );
+
+  // Persist newly enriched landmarks for future requests
+  try {
+    await storage.upsertLandmarks(enrichedLandmarks);
+  } catch (error) {
+    console.error("Error persisting landmarks:", error);
+  }
+
+  // Resolve missing addresses in the background; they are served once stored
+  queueAddressLookups(
+    [...storedLandmarks, ...enrichedLandmarks].filter(
+      (landmark) => landmark.source === "wikipedia" && !landmark.address
+    ),
+    lang
+  );
+
+  return landmarksWithDetails;
+}
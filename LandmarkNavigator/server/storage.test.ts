@@ -0,0 +1,275 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+import { Landmark } from "@/types";
+import { DbStorage, IStorage, MemStorage } from "./storage";
+import type { Database } from "./db";
+
+type TestStorage = IStorage & { stopCleanup(): void };
+
+// Creates fresh storages for one implementation; reset() empties what they share between tests
+interface StorageHarness {
+  createStorage(): TestStorage;
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start an in-process Postgres database with the app's schema
+ */
+async function createDbHarness(): Promise<StorageHarness> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  const db = drizzle(client, { schema }) as unknown as Database;
+
+  return {
+    createStorage: () => new DbStorage(db),
+    reset: async () => {
+      await client.exec("truncate landmarks, caches, bookmark_accounts, bookmark_records restart identity cascade");
+    },
+    close: () => client.close(),
+  };
+}
+
+const eiffelTower: Landmark = {
+  pageid: 9232,
+  lang: "en",
+  title: "Eiffel Tower",
+  lat: 48.8584,
+  lon: 2.2945,
+  description: "Wrought-iron lattice tower",
+  thumbnail: "https://upload.wikimedia.org/eiffel.jpg",
+  wikidata: "Q243",
+  category: "monument",
+  notability: 98,
+  facts: [{ type: "date", label: "Built", value: "1889" }],
+};
+
+const louvre: Landmark = {
+  pageid: 17569,
+  lang: "en",
+  title: "Louvre",
+  lat: 48.8606,
+  lon: 2.3376,
+};
+
+const parisBounds = { north: 48.9, south: 48.8, east: 2.4, west: 2.2 };
+
+const implementations: [string, () => Promise<StorageHarness>][] = [
+  ["MemStorage", async () => ({ createStorage: () => new MemStorage(), reset: async () => {}, close: async () => {} })],
+  ["DbStorage", createDbHarness],
+];
+
+describe.each(implementations)("%s", (_name, createHarness) => {
+  let harness: StorageHarness;
+  let storage: TestStorage;
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    storage = harness.createStorage();
+  });
+
+  afterEach(async () => {
+    storage.stopCleanup();
+    await harness.reset();
+  });
+
+  describe("cache", () => {
+    it("returns null for a missing key", async () => {
+      expect(await storage.getCachedData("missing")).toBeNull();
+    });
+
+    it("returns cached values until they expire", async () => {
+      const now = Date.now();
+      await storage.cacheData("landmarks_1", [{ pageid: 1 }], now + 60_000);
+      expect(await storage.getCachedData("landmarks_1")).toEqual([{ pageid: 1 }]);
+
+      jest.spyOn(Date, "now").mockReturnValue(now + 120_000);
+      try {
+        expect(await storage.getCachedData("landmarks_1")).toBeNull();
+      } finally {
+        (Date.now as jest.Mock).mockRestore();
+      }
+    });
+
+    it("overwrites an existing key", async () => {
+      await storage.cacheData("key", { version: 1 }, Date.now() + 60_000);
+      await storage.cacheData("key", { version: 2 }, Date.now() + 60_000);
+      expect(await storage.getCachedData("key")).toEqual({ version: 2 });
+    });
+
+    it("rejects an expiry time in the past", async () => {
+      await expect(storage.cacheData("key", 1, Date.now() - 1)).rejects.toThrow("Expiry time must be a future timestamp.");
+    });
+
+    it("clears expired entries and keeps fresh ones", async () => {
+      const now = Date.now();
+      await storage.cacheData("short", 1, now + 1_000);
+      await storage.cacheData("long", 2, now + 60_000);
+
+      jest.spyOn(Date, "now").mockReturnValue(now + 10_000);
+      try {
+        await storage.clearExpiredCache();
+        expect(await storage.getCachedData("long")).toBe(2);
+      } finally {
+        (Date.now as jest.Mock).mockRestore();
+      }
+      // Gone for good, even once its expiry time no longer looks past
+      jest.spyOn(Date, "now").mockReturnValue(now);
+      try {
+        expect(await storage.getCachedData("short")).toBeNull();
+      } finally {
+        (Date.now as jest.Mock).mockRestore();
+      }
+    });
+
+    it("counts hits and misses", async () => {
+      await storage.cacheData("key", 1, Date.now() + 60_000);
+      await storage.getCachedData("key");
+      await storage.getCachedData("key");
+      await storage.getCachedData("missing");
+
+      expect(await storage.getCacheStats()).toEqual({ hits: 2, misses: 1, hitRatio: 2 / 3 });
+    });
+  });
+
+  describe("landmarks", () => {
+    it("round-trips every landmark field", async () => {
+      await storage.upsertLandmarks([eiffelTower]);
+
+      const stored = await storage.getLandmark(eiffelTower.pageid, "en");
+      expect(stored).toMatchObject({ ...eiffelTower, source: "wikipedia" });
+      expect(stored!.updatedAt).toBeGreaterThan(0);
+    });
+
+    it("returns null for an unknown page or language", async () => {
+      await storage.upsertLandmarks([eiffelTower]);
+
+      expect(await storage.getLandmark(1, "en")).toBeNull();
+      expect(await storage.getLandmark(eiffelTower.pageid, "fr")).toBeNull();
+    });
+
+    it("updates a landmark stored earlier instead of adding another", async () => {
+      await storage.upsertLandmarks([eiffelTower]);
+      await storage.upsertLandmarks([{ ...eiffelTower, description: "Updated", address: "Champ de Mars" }]);
+
+      expect(await storage.getLandmark(eiffelTower.pageid, "en")).toMatchObject({
+        description: "Updated",
+        address: "Champ de Mars",
+      });
+      expect(await storage.getLandmarksInBounds(parisBounds, "en", 0)).toHaveLength(1);
+    });
+
+    it("keeps language editions of the same page apart", async () => {
+      await storage.upsertLandmarks([eiffelTower, { ...eiffelTower, lang: "fr", title: "Tour Eiffel" }]);
+
+      expect((await storage.getLandmark(eiffelTower.pageid, "en"))!.title).toBe("Eiffel Tower");
+      expect((await storage.getLandmark(eiffelTower.pageid, "fr"))!.title).toBe("Tour Eiffel");
+    });
+
+    it("finds landmarks by bounds, language and freshness", async () => {
+      const bigBen = { pageid: 4352, lang: "en", title: "Big Ben", lat: 51.5007, lon: -0.1246 };
+      await storage.upsertLandmarks([eiffelTower, louvre, bigBen, { ...louvre, lang: "de" }]);
+
+      const found = await storage.getLandmarksInBounds(parisBounds, "en", 0);
+      expect(found.map((landmark) => landmark.title).sort()).toEqual(["Eiffel Tower", "Louvre"]);
+      expect(await storage.getLandmarksInBounds(parisBounds, "en", Date.now() + 60_000)).toEqual([]);
+    });
+
+    it("keeps the last copy of a landmark repeated in one batch", async () => {
+      await storage.upsertLandmarks([eiffelTower, louvre, { ...eiffelTower, description: "Repeated" }]);
+
+      expect((await storage.getLandmark(eiffelTower.pageid, "en"))!.description).toBe("Repeated");
+      expect(await storage.getLandmarksInBounds(parisBounds, "en", 0)).toHaveLength(2);
+    });
+
+    it("accepts an empty batch", async () => {
+      await expect(storage.upsertLandmarks([])).resolves.toBeUndefined();
+    });
+
+    it("updates only the address of a landmark", async () => {
+      await storage.upsertLandmarks([eiffelTower, { ...eiffelTower, lang: "fr", title: "Tour Eiffel" }]);
+      const before = await storage.getLandmark(eiffelTower.pageid, "en");
+
+      await storage.updateLandmarkAddress(eiffelTower.pageid, "en", "Champ de Mars, Paris");
+
+      expect(await storage.getLandmark(eiffelTower.pageid, "en")).toEqual({ ...before, address: "Champ de Mars, Paris" });
+      expect((await storage.getLandmark(eiffelTower.pageid, "fr"))!.address).toBeUndefined();
+    });
+
+    it("ignores an address for a landmark it does not have", async () => {
+      await storage.updateLandmarkAddress(eiffelTower.pageid, "en", "Champ de Mars, Paris");
+
+      expect(await storage.getLandmark(eiffelTower.pageid, "en")).toBeNull();
+    });
+  });
+
+  describe("bookmark records", () => {
+    const record = { kind: "bookmark" as const, key: "en:9232", data: { title: "Eiffel Tower", lang: "en" }, updatedAt: 1000, deleted: false };
+
+    beforeEach(async () => {
+      await storage.createBookmarkAccount("account");
+    });
+
+    it("knows which accounts exist", async () => {
+      expect(await storage.hasBookmarkAccount("account")).toBe(true);
+      expect(await storage.hasBookmarkAccount("other")).toBe(false);
+    });
+
+    it("stores and returns records", async () => {
+      await storage.putBookmarkRecords("account", [record]);
+
+      expect(await storage.getBookmarkRecords("account")).toEqual([record]);
+      expect(await storage.getBookmarkRecords("other")).toEqual([]);
+    });
+
+    it("keeps the latest change of a record", async () => {
+      await storage.putBookmarkRecords("account", [record]);
+      await storage.putBookmarkRecords("account", [{ ...record, data: { title: "Newer", lang: "en" }, updatedAt: 2000 }]);
+      await storage.putBookmarkRecords("account", [{ ...record, data: { title: "Late", lang: "en" }, updatedAt: 1500 }]);
+
+      expect(await storage.getBookmarkRecords("account")).toEqual([
+        { ...record, data: { title: "Newer", lang: "en" }, updatedAt: 2000 },
+      ]);
+    });
+
+    it("lets a deletion win a tie", async () => {
+      await storage.putBookmarkRecords("account", [record]);
+      await storage.putBookmarkRecords("account", [{ ...record, data: {}, deleted: true }]);
+      await storage.putBookmarkRecords("account", [record]);
+
+      expect(await storage.getBookmarkRecords("account")).toEqual([{ ...record, data: {}, deleted: true }]);
+    });
+
+    it("returns bookmarks stored under their page ID alone with language-qualified keys", async () => {
+      await storage.putBookmarkRecords("account", [{ ...record, key: "9232", data: { title: "Tour Eiffel", lang: "fr" } }]);
+
+      expect(await storage.getBookmarkRecords("account")).toEqual([
+        { ...record, key: "fr:9232", data: { title: "Tour Eiffel", lang: "fr" } },
+      ]);
+    });
+
+    it("returns only records stored since a time", async () => {
+      await storage.putBookmarkRecords("account", [record]);
+      const since = Date.now() + 1;
+      expect(await storage.getBookmarkRecords("account", since)).toEqual([]);
+    });
+
+    it("refuses records for an unknown account", async () => {
+      await expect(storage.putBookmarkRecords("other", [record])).rejects.toThrow();
+    });
+  });
+});
@@ -1,17 +1,134 @@
-import { Cache, InsertCache } from "@shared/schema";
+import { and, between, eq, gte, lt, sql } from "drizzle-orm";
+import {
+  BookmarkRecordRow,
+  Cache,
+  InsertCache,
+  Landmark as LandmarkRecord,
+  bookmarkAccounts,
+  bookmarkRecords,
+  caches,
+  landmarks,
+} from "@shared/schema";
+import { BookmarkRecord, BookmarkRecordKind, isNewerRecord, upgradeBookmarkRecord } from "@shared/bookmarks";
+import { Landmark, LandmarkSourceName, MapBounds } from "@/types";
+import { DEFAULT_LANGUAGE } from "@shared/languages";
+import type { LandmarkCategory } from "@shared/categories";
+import { createDb, type Database } from "./db";
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRatio: number;
+}
 
 export interface IStorage {
   getCachedData(key: string): Promise<any | null>;
   cacheData(key: string, value: any, expiryTime: number): Promise<void>;
   clearExpiredCache(): Promise<void>;
+  getLandmarksInBounds(bounds: MapBounds, lang: string, updatedSince: number): Promise<Landmark[]>;
+  getLandmark(pageid: number, lang: string): Promise<(Landmark & { updatedAt: number }) | null>;
+  upsertLandmarks(landmarks: Landmark[]): Promise<void>;
+  updateLandmarkAddress(pageid: number, lang: string, address: string): Promise<void>;
+  getCacheStats(): Promise<CacheStats>;
+  createBookmarkAccount(accountId: string): Promise<void>;
+  hasBookmarkAccount(accountId: string): Promise<boolean>;
+  getBookmarkRecords(accountId: string, syncedSince?: number): Promise<BookmarkRecord[]>;
+  putBookmarkRecords(accountId: string, records: BookmarkRecord[]): Promise<void>;
+}
+
+/**
+ * Count cache lookups so hit/miss ratios can be reported
+ */
+class CacheStatsCounter {
+  private hits = 0;
+  private misses = 0;
+
+  recordHit(): void {
+    this.hits++;
+  }
+
+  recordMiss(): void {
+    this.misses++;
+  }
+
+  snapshot(): CacheStats {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: total > 0 ? this.hits / total : 0,
+    };
+  }
+}
+
+/**
+ * Convert an API landmark into a row for the landmarks table
+ */
+function toLandmarkRecord(landmark: Landmark): typeof landmarks.$inferInsert {
+  return {
+    pageid: landmark.pageid.toString(),
+    lang: landmark.lang ?? DEFAULT_LANGUAGE,
+    title: landmark.title,
+    lat: landmark.lat.toString(),
+    lon: landmark.lon.toString(),
+    description: landmark.description ?? null,
+    thumbnail: landmark.thumbnail ?? null,
+    address: landmark.address ?? null,
+    wikidata: landmark.wikidata ?? null,
+    source: landmark.source ?? "wikipedia",
+    url: landmark.url ?? null,
+    category: landmark.category ?? null,
+    notability: landmark.notability?.toString() ?? null,
+    facts: landmark.facts ?? null,
+  };
+}
+
+/**
+ * Convert a row of the landmarks table back into an API landmark
+ */
+function fromLandmarkRecord(record: LandmarkRecord): Landmark {
+  return {
+    pageid: Number(record.pageid),
+    lang: record.lang,
+    title: record.title,
+    lat: Number(record.lat),
+    lon: Number(record.lon),
+    description: record.description ?? undefined,
+    thumbnail: record.thumbnail ?? undefined,
+    address: record.address ?? undefined,
+    wikidata: record.wikidata ?? undefined,
+    source: record.source as LandmarkSourceName,
+    url: record.url ?? undefined,
+    category: (record.category as LandmarkCategory | null) ?? undefined,
+    notability: record.notability !== null ? Number(record.notability) : undefined,
+    facts: record.facts ?? undefined,
+  };
+}
+
+/**
+ * Convert a row of the bookmark_records table into a sync record, upgrading rows stored
+ * before bookmarks were keyed by language
+ */
+function fromBookmarkRecordRow(row: BookmarkRecordRow): BookmarkRecord {
+  return upgradeBookmarkRecord({
+    kind: row.kind as BookmarkRecordKind,
+    key: row.key,
+    data: row.data as Record<string, unknown>,
+    updatedAt: Number(row.updatedAt),
+    deleted: row.deleted,
+  });
 }
 
 export class MemStorage implements IStorage {
   private cache: Map<string, Cache>;
+  private landmarks: Map<string, LandmarkRecord>; // Keyed by `${lang}:${pageid}`
+  private bookmarkAccounts = new Map<string, Map<string, BookmarkRecordRow>>(); // Records keyed by `${kind}:${key}`
+  private stats = new CacheStatsCounter();
   private cleanupInterval: NodeJS.Timeout;
 
   constructor(cleanupIntervalMs: number = 60 * 1000) {
     this.cache = new Map();
+    this.landmarks = new Map();
 
     // Setup periodic cache cleanup
     this.cleanupInterval = setInterval(() => {
@@ -19,6 +136,7 @@ export class MemStorage implements IStorage {
         console.error("Error during cache cleanup:", err);
       });
     }, cleanupIntervalMs);
+    this.cleanupInterval.unref(); // Don't keep the process alive just for cleanup
   }
 
   async getCachedData(key: string): Promise<any | null> {
@@ -26,6 +144,7 @@ export class MemStorage implements IStorage {
 
     if (!cacheEntry) {
       console.log(`Cache miss for key: ${key}`);
+      this.stats.recordMiss();
       return null;
     }
 
@@ -33,10 +152,12 @@ export class MemStorage implements IStorage {
     if (Number(cacheEntry.expires) < Date.now()) {
       console.log(`Cache expired for key: ${key}`);
       this.cache.delete(key);
+      this.stats.recordMiss();
       return null;
     }
 
     console.log(`Cache hit for key: ${key}`);
+    this.stats.recordHit();
     return cacheEntry.value;
   }
 
@@ -51,9 +172,12 @@ export class MemStorage implements IStorage {
       expires: expiryTime.toString(), // Convert to string to match schema
     };
 
+    const now = Date.now().toString();
     this.cache.set(key, {
       id: this.cache.size + 1,
       ...cacheEntry,
+      createdAt: this.cache.get(key)?.createdAt ?? now,
+      updatedAt: now,
     });
 
     console.log(`Cached data for key: ${key} with expiry: ${expiryTime}`);
@@ -76,10 +200,328 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getLandmarksInBounds(bounds: MapBounds, lang: string, updatedSince: number): Promise<Landmark[]> {
+    return Array.from(this.landmarks.values())
+      .filter((record) => {
+        const lat = Number(record.lat);
+        const lon = Number(record.lon);
+        return (
+          record.lang === lang &&
+          lat >= bounds.south &&
+          lat <= bounds.north &&
+          lon >= bounds.west &&
+          lon <= bounds.east &&
+          Number(record.updatedAt) >= updatedSince
+        );
+      })
+      .map(fromLandmarkRecord);
+  }
+
+  async getLandmark(pageid: number, lang: string): Promise<(Landmark & { updatedAt: number }) | null> {
+    const record = this.landmarks.get(`${lang}:${pageid}`);
+    return record ? { ...fromLandmarkRecord(record), updatedAt: Number(record.updatedAt) } : null;
+  }
+
+  async upsertLandmarks(landmarks: Landmark[]): Promise<void> {
+    const now = Date.now().toString();
+
+    landmarks.forEach((landmark) => {
+      const record = toLandmarkRecord(landmark);
+      const key = `${record.lang}:${record.pageid}`;
+      const existing = this.landmarks.get(key);
+      this.landmarks.set(key, {
+        id: existing?.id ?? this.landmarks.size + 1,
+        description: null,
+        thumbnail: null,
+        address: null,
+        wikidata: null,
+        url: null,
+        category: null,
+        notability: null,
+        facts: null,
+        ...record,
+        lang: record.lang ?? DEFAULT_LANGUAGE,
+        source: record.source ?? "wikipedia",
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  async updateLandmarkAddress(pageid: number, lang: string, address: string): Promise<void> {
+    const record = this.landmarks.get(`${lang}:${pageid}`);
+    if (record) {
+      record.address = address;
+    }
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return this.stats.snapshot();
+  }
+
+  async createBookmarkAccount(accountId: string): Promise<void> {
+    if (!this.bookmarkAccounts.has(accountId)) {
+      this.bookmarkAccounts.set(accountId, new Map());
+    }
+  }
+
+  async hasBookmarkAccount(accountId: string): Promise<boolean> {
+    return this.bookmarkAccounts.has(accountId);
+  }
+
+  async getBookmarkRecords(accountId: string, syncedSince: number = 0): Promise<BookmarkRecord[]> {
+    return Array.from(this.bookmarkAccounts.get(accountId)?.values() ?? [])
+      .filter((row) => Number(row.syncedAt) >= syncedSince)
+      .map(fromBookmarkRecordRow);
+  }
+
+  async putBookmarkRecords(accountId: string, records: BookmarkRecord[]): Promise<void> {
+    const rows = this.bookmarkAccounts.get(accountId);
+    if (!rows) {
+      throw new Error(`Unknown bookmark account: ${accountId}`);
+    }
+
+    const now = Date.now().toString();
+    records.forEach((record) => {
+      const key = `${record.kind}:${record.key}`;
+      const existing = rows.get(key);
+      // Last write wins; older changes arriving late are ignored
+      if (isNewerRecord(record, existing && fromBookmarkRecordRow(existing))) {
+        rows.set(key, {
+          id: existing?.id ?? rows.size + 1,
+          accountId,
+          ...record,
+          updatedAt: record.updatedAt.toString(),
+          syncedAt: now,
+        });
+      }
+    });
+  }
+
+  stopCleanup(): void {
+    clearInterval(this.cleanupInterval);
+    console.log("Stopped periodic cache cleanup.");
+  }
+}
+
+export class DbStorage implements IStorage {
+  private stats = new CacheStatsCounter();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor(private db: Database, cleanupIntervalMs: number = 60 * 1000) {
+    // Setup periodic cache cleanup
+    this.cleanupInterval = setInterval(() => {
+      this.clearExpiredCache().catch((err) => {
+        console.error("Error during cache cleanup:", err);
+      });
+    }, cleanupIntervalMs);
+    this.cleanupInterval.unref(); // Don't keep the process alive just for cleanup
+  }
+
+  async getCachedData(key: string): Promise<any | null> {
+    const [cacheEntry] = await this.db
+      .select()
+      .from(caches)
+      .where(eq(caches.key, key))
+      .limit(1);
+
+    if (!cacheEntry) {
+      console.log(`Cache miss for key: ${key}`);
+      this.stats.recordMiss();
+      return null;
+    }
+
+    // Check if cache is expired
+    if (Number(cacheEntry.expires) < Date.now()) {
+      console.log(`Cache expired for key: ${key}`);
+      await this.db.delete(caches).where(eq(caches.key, key));
+      this.stats.recordMiss();
+      return null;
+    }
+
+    console.log(`Cache hit for key: ${key}`);
+    this.stats.recordHit();
+    return cacheEntry.value;
+  }
+
+  async cacheData(key: string, value: any, expiryTime: number): Promise<void> {
+    if (expiryTime <= Date.now()) {
+      throw new Error("Expiry time must be a future timestamp.");
+    }
+
+    const cacheEntry: InsertCache = {
+      key,
+      value,
+      expires: expiryTime.toString(), // Convert to string to match schema
+    };
+
+    await this.db
+      .insert(caches)
+      .values(cacheEntry)
+      .onConflictDoUpdate({
+        target: caches.key,
+        set: {
+          value: cacheEntry.value,
+          expires: cacheEntry.expires,
+          updatedAt: Date.now().toString(),
+        },
+      });
+
+    console.log(`Cached data for key: ${key} with expiry: ${expiryTime}`);
+  }
+
+  async clearExpiredCache(): Promise<void> {
+    const expired = await this.db
+      .delete(caches)
+      .where(lt(caches.expires, Date.now().toString()))
+      .returning({ key: caches.key });
+
+    if (expired.length > 0) {
+      console.log(`Cleared ${expired.length} expired cache entries.`);
+    }
+  }
+
+  async getLandmarksInBounds(bounds: MapBounds, lang: string, updatedSince: number): Promise<Landmark[]> {
+    const records = await this.db
+      .select()
+      .from(landmarks)
+      .where(
+        and(
+          eq(landmarks.lang, lang),
+          between(landmarks.lat, bounds.south.toString(), bounds.north.toString()),
+          between(landmarks.lon, bounds.west.toString(), bounds.east.toString()),
+          gte(landmarks.updatedAt, updatedSince.toString())
+        )
+      );
+
+    return records.map(fromLandmarkRecord);
+  }
+
+  async getLandmark(pageid: number, lang: string): Promise<(Landmark & { updatedAt: number }) | null> {
+    const [record] = await this.db
+      .select()
+      .from(landmarks)
+      .where(and(eq(landmarks.pageid, pageid.toString()), eq(landmarks.lang, lang)))
+      .limit(1);
+
+    return record ? { ...fromLandmarkRecord(record), updatedAt: Number(record.updatedAt) } : null;
+  }
+
+  async upsertLandmarks(landmarkList: Landmark[]): Promise<void> {
+    if (landmarkList.length === 0) {
+      return;
+    }
+
+    // Postgres can't update a row twice in one statement, so repeated landmarks keep their last copy as in MemStorage
+    const records = new Map(
+      landmarkList.map(toLandmarkRecord).map((record) => [`${record.lang}:${record.pageid}`, record])
+    );
+
+    await this.db
+      .insert(landmarks)
+      .values(Array.from(records.values()))
+      .onConflictDoUpdate({
+        target: [landmarks.pageid, landmarks.lang],
+        set: {
+          title: sql`excluded.title`,
+          lat: sql`excluded.lat`,
+          lon: sql`excluded.lon`,
+          description: sql`excluded.description`,
+          thumbnail: sql`excluded.thumbnail`,
+          address: sql`excluded.address`,
+          wikidata: sql`excluded.wikidata`,
+          source: sql`excluded.source`,
+          url: sql`excluded.url`,
+          category: sql`excluded.category`,
+          notability: sql`excluded.notability`,
+          facts: sql`excluded.facts`,
+          updatedAt: Date.now().toString(),
+        },
+      });
+  }
+
+  async updateLandmarkAddress(pageid: number, lang: string, address: string): Promise<void> {
+    // Leaves updatedAt alone: an address says nothing about how fresh the rest of the row is
+    await this.db
+      .update(landmarks)
+      .set({ address })
+      .where(and(eq(landmarks.pageid, pageid.toString()), eq(landmarks.lang, lang)));
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return this.stats.snapshot();
+  }
+
+  async createBookmarkAccount(accountId: string): Promise<void> {
+    await this.db.insert(bookmarkAccounts).values({ id: accountId }).onConflictDoNothing();
+  }
+
+  async hasBookmarkAccount(accountId: string): Promise<boolean> {
+    const [account] = await this.db
+      .select({ id: bookmarkAccounts.id })
+      .from(bookmarkAccounts)
+      .where(eq(bookmarkAccounts.id, accountId))
+      .limit(1);
+
+    return !!account;
+  }
+
+  async getBookmarkRecords(accountId: string, syncedSince: number = 0): Promise<BookmarkRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(bookmarkRecords)
+      .where(and(eq(bookmarkRecords.accountId, accountId), gte(bookmarkRecords.syncedAt, syncedSince.toString())));
+
+    return rows.map(fromBookmarkRecordRow);
+  }
+
+  async putBookmarkRecords(accountId: string, records: BookmarkRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const now = Date.now().toString();
+    await this.db
+      .insert(bookmarkRecords)
+      .values(records.map((record) => ({
+        accountId,
+        ...record,
+        updatedAt: record.updatedAt.toString(),
+        syncedAt: now,
+      })))
+      .onConflictDoUpdate({
+        target: [bookmarkRecords.accountId, bookmarkRecords.kind, bookmarkRecords.key],
+        set: {
+          data: sql`excluded.data`,
+          deleted: sql`excluded.deleted`,
+          updatedAt: sql`excluded.updated_at`,
+          syncedAt: now,
+        },
+        // Last write wins, with deletions winning ties (see isNewerRecord)
+        setWhere: sql`excluded.updated_at > ${bookmarkRecords.updatedAt}
+          or (excluded.updated_at = ${bookmarkRecords.updatedAt} and excluded.deleted and not ${bookmarkRecords.deleted})`,
+      });
+  }
+
   stopCleanup(): void {
     clearInterval(this.cleanupInterval);
     console.log("Stopped periodic cache cleanup.");
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+/**
+ * Use Postgres when DATABASE_URL is configured, otherwise fall back to memory
+ */
+function createStorage(): IStorage {
+  const databaseUrl = process.env.DATABASE_URL;
+
+  if (databaseUrl) {
+    console.log("Using Postgres storage.");
+    return new DbStorage(createDb(databaseUrl));
+  }
+
+  console.log("DATABASE_URL not set, using in-memory storage.");
+  return new MemStorage();
+}
+
+export const storage = createStorage();
\ No newline at end of file
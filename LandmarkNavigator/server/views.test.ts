@@ -0,0 +1,74 @@
+import { loadLandmarks } from "./landmarks";
+import { storage } from "./storage";
+import { getViewLandmarks, viewCacheKey } from "./views";
+import { snapBoundsToTiles, tileToBounds } from "@shared/tiles";
+
+jest.mock("./landmarks", () => ({ loadLandmarks: jest.fn() }));
+
+const loadLandmarksMock = loadLandmarks as jest.MockedFunction<typeof loadLandmarks>;
+const eiffelTower = { pageid: 9232, title: "Eiffel Tower", lat: 48.8584, lon: 2.2945 };
+
+// A zoom 14 tile around the Eiffel Tower and two views a few dozen metres apart inside it
+const tile = tileToBounds({ x: 8296, y: 5639, z: 14 });
+const view = { north: tile.north - 0.001, south: tile.south + 0.001, east: tile.east - 0.001, west: tile.west + 0.001 };
+const pannedView = { north: view.north - 0.0004, south: view.south - 0.0004, east: view.east + 0.0003, west: view.west + 0.0003 };
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  loadLandmarksMock.mockReset();
+  loadLandmarksMock.mockResolvedValue([eiffelTower]);
+});
+
+describe("getViewLandmarks", () => {
+  it("reuses the cached landmarks for slightly different bounds", async () => {
+    const statsBefore = await storage.getCacheStats();
+
+    expect(await getViewLandmarks(view, 14, "en")).toEqual([eiffelTower]);
+    expect(await getViewLandmarks(pannedView, 14, "en")).toEqual([eiffelTower]);
+
+    expect(loadLandmarksMock).toHaveBeenCalledTimes(1);
+    expect(viewCacheKey(view, 14, "en")).toBe(viewCacheKey(pannedView, 14, "en"));
+    const statsAfter = await storage.getCacheStats();
+    expect(statsAfter.hits - statsBefore.hits).toBe(1);
+    expect(statsAfter.misses - statsBefore.misses).toBe(1);
+  });
+
+  it("loads landmarks for the snapped bounds", async () => {
+    await getViewLandmarks(view, 14, "de");
+
+    expect(loadLandmarksMock).toHaveBeenCalledWith(snapBoundsToTiles(view, 14), "de");
+    expect(snapBoundsToTiles(view, 14)).toEqual(tile);
+  });
+
+  it("keeps views at other zoom levels and in other languages apart", async () => {
+    await getViewLandmarks(view, 14, "fr");
+    await getViewLandmarks(view, 13, "fr");
+    await getViewLandmarks(view, 14, "it");
+
+    expect(loadLandmarksMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("shares one load between concurrent requests for the same view", async () => {
+    const [first, second] = await Promise.all([
+      getViewLandmarks(view, 14, "es"),
+      getViewLandmarks(pannedView, 14, "es"),
+    ]);
+
+    expect(loadLandmarksMock).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(second);
+  });
+
+  it("loads again once the bounds reach into a neighbouring tile", async () => {
+    await getViewLandmarks(view, 14, "nl");
+    await getViewLandmarks({ ...view, east: tile.east + 0.001 }, 14, "nl");
+
+    expect(loadLandmarksMock).toHaveBeenCalledTimes(2);
+  });
+});
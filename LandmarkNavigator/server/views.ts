@@ -0,0 +1,51 @@
+import { storage } from "./storage";
+import { loadLandmarks } from "./landmarks";
+import { snapBoundsToTiles, tileRangeKey, type TileBounds } from "@shared/tiles";
+import { Landmark } from "@/types";
+
+// Constants
+const VIEW_CACHE_EXPIRY_TIME = 1000 * 60 * 15; // 15 minutes
+
+// In-flight view fetches keyed by cache key
+const pendingViews = new Map<string, Promise<Landmark[]>>();
+
+/**
+ * Cache key of a map view: the tile range its bounds cover at the zoom level
+ */
+export function viewCacheKey(bounds: TileBounds, zoom: number, lang: string): string {
+  return `landmarks_${lang}_${tileRangeKey(bounds, zoom)}`;
+}
+
+/**
+ * Get landmarks for a map view, snapping the bounds to the tile grid
+ * so neighbouring viewports share cache entries
+ */
+export async function getViewLandmarks(
+  bounds: TileBounds,
+  zoom: number,
+  lang: string
+): Promise<Landmark[]> {
+  const cacheKey = viewCacheKey(bounds, zoom, lang);
+  const cachedLandmarks = await storage.getCachedData(cacheKey);
+
+  if (cachedLandmarks) {
+    return cachedLandmarks;
+  }
+
+  // Share one fetch between concurrent requests for the same view (e.g. landmarks and clusters)
+  let pending = pendingViews.get(cacheKey);
+  if (!pending) {
+    pending = (async () => {
+      // Fetch landmarks covering the whole snapped bounds
+      const landmarks = await loadLandmarks(snapBoundsToTiles(bounds, zoom), lang);
+
+      // Cache the results
+      await storage.cacheData(cacheKey, landmarks, Date.now() + VIEW_CACHE_EXPIRY_TIME);
+
+      return landmarks;
+    })().finally(() => pendingViews.delete(cacheKey));
+    pendingViews.set(cacheKey, pending);
+  }
+
+  return pending;
+}
@@ -6,6 +6,7 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { injectLandmarkPreview } from "./previews";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -64,7 +65,7 @@ export async function setupVite(app: Express, server: Server): Promise<void> {
           `src="/src/main.tsx"`,
           `src="/src/main.tsx?v=${nanoid()}"`
         );
-        const page = await vite.transformIndexHtml(url, template);
+        const page = await injectLandmarkPreview(await vite.transformIndexHtml(url, template), req);
         res.status(200).set({ "Content-Type": "text/html" }).end(page);
       } catch (e) {
         vite.ssrFixStacktrace(e as Error);
@@ -100,11 +101,24 @@ export function serveStatic(app: Express): void {
       );
     }
 
+    const indexPath = path.resolve(distPath, "index.html");
+    const indexHtml = fs.readFileSync(indexPath, "utf-8");
+
     app.use(express.static(distPath, { maxAge: "1y", immutable: true }));
 
+    // Landmark links get link preview tags for the landmark they point to
+    app.get("/landmark/:pageid", async (req, res, next) => {
+      try {
+        const page = await injectLandmarkPreview(indexHtml, req);
+        res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      } catch (e) {
+        next(e);
+      }
+    });
+
     // Fall through to index.html if the file doesn't exist
     app.use("*", (_req, res) => {
-      res.sendFile(path.resolve(distPath, "index.html"));
+      res.sendFile(indexPath);
     });
   } catch (error) {
     log(`Error serving static files: ${error.message}`, "static");
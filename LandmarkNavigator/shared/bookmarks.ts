@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { DEFAULT_LANGUAGE } from "./languages";
+
+export const BOOKMARK_RECORD_KINDS = ["bookmark", "collection"] as const;
+export type BookmarkRecordKind = (typeof BOOKMARK_RECORD_KINDS)[number];
+
+const MAX_RECORD_SIZE = 20000; // Characters of JSON per record, plenty for a note and tags
+const LEGACY_BOOKMARK_KEY = /^-?\d+$/; // Bookmarks used to be keyed by page ID alone
+
+/**
+ * Key identifying a bookmarked landmark, e.g. "fr:1359783". Page IDs are only unique
+ * within one Wikipedia language edition, so the language is part of the key.
+ */
+export function bookmarkKey(landmark: { pageid: number; lang?: string }): string {
+  return `${landmark.lang || DEFAULT_LANGUAGE}:${landmark.pageid}`;
+}
+
+/**
+ * Language and page ID of a bookmark key
+ */
+export function parseBookmarkKey(key: string): { lang: string; pageid: number } {
+  const [lang, pageid] = key.split(":");
+  return { lang, pageid: Number(pageid) };
+}
+
+/**
+ * A synced bookmark or collection. The data is stored as sent by the client; deleted
+ * records are kept as tombstones so that deletions reach other devices too.
+ */
+const bookmarkRecordFields = z.object({
+  kind: z.enum(BOOKMARK_RECORD_KINDS),
+  key: z.string().min(1).max(100), // Bookmark key (see bookmarkKey), or collection ID
+  data: z
+    .record(z.unknown())
+    .refine((data) => JSON.stringify(data).length <= MAX_RECORD_SIZE, "Record is too large"),
+  updatedAt: z.number().int().nonnegative(),
+  deleted: z.boolean().default(false),
+});
+
+export type BookmarkRecord = z.infer<typeof bookmarkRecordFields>;
+
+// Records from clients that predate language-qualified keys are upgraded on the way in
+export const bookmarkRecordSchema = bookmarkRecordFields.transform(upgradeBookmarkRecord);
+
+export interface BookmarkSyncResponse {
+  records: BookmarkRecord[];
+  serverTime: number; // Pass back as `since` to only get later changes
+}
+
+/**
+ * Bring a record sent or stored before bookmarks were keyed by language up to date
+ */
+export function upgradeBookmarkRecord(record: BookmarkRecord): BookmarkRecord {
+  if (record.kind !== "bookmark" || !LEGACY_BOOKMARK_KEY.test(record.key)) {
+    return record;
+  }
+  const lang = typeof record.data.lang === "string" ? record.data.lang : undefined;
+  return { ...record, key: bookmarkKey({ pageid: Number(record.key), lang }) };
+}
+
+/**
+ * Last write wins: whether an incoming record should replace the stored one.
+ * On equal timestamps a deletion wins, so both sides end up with the same result.
+ */
+export function isNewerRecord(
+  incoming: Pick<BookmarkRecord, "updatedAt" | "deleted">,
+  existing: Pick<BookmarkRecord, "updatedAt" | "deleted"> | undefined
+): boolean {
+  if (!existing) {
+    return true;
+  }
+  if (incoming.updatedAt !== existing.updatedAt) {
+    return incoming.updatedAt > existing.updatedAt;
+  }
+  return incoming.deleted && !existing.deleted;
+}
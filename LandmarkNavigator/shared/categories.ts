@@ -0,0 +1,37 @@
+// Fixed landmark category taxonomy shared by the client and the server
+
+export interface CategoryInfo {
+  id: string;
+  name: string;
+  color: string; // Marker and chip colour
+}
+
+export const LANDMARK_CATEGORIES = [
+  { id: "museum", name: "Museums", color: "#7c3aed" },
+  { id: "religious", name: "Religious sites", color: "#0891b2" },
+  { id: "monument", name: "Monuments & memorials", color: "#ca8a04" },
+  { id: "castle", name: "Castles & palaces", color: "#9f1239" },
+  { id: "historic", name: "Historic sites", color: "#92400e" },
+  { id: "nature", name: "Parks & nature", color: "#16a34a" },
+  { id: "architecture", name: "Buildings & bridges", color: "#475569" },
+  { id: "transport", name: "Transport", color: "#2563eb" },
+  { id: "education", name: "Education", color: "#db2777" },
+  { id: "entertainment", name: "Entertainment & sport", color: "#dc2626" },
+  { id: "other", name: "Other", color: "#f97316" },
+] as const satisfies readonly CategoryInfo[];
+
+export type LandmarkCategory = (typeof LANDMARK_CATEGORIES)[number]["id"];
+
+export const DEFAULT_CATEGORY: LandmarkCategory = "other";
+
+export const LANDMARK_CATEGORY_IDS = LANDMARK_CATEGORIES.map((category) => category.id);
+
+/**
+ * Look up a category, falling back to "other" for unknown or missing IDs
+ */
+export function getCategory(id?: string): CategoryInfo {
+  return (
+    LANDMARK_CATEGORIES.find((category) => category.id === id) ??
+    LANDMARK_CATEGORIES.find((category) => category.id === DEFAULT_CATEGORY)!
+  );
+}
@@ -0,0 +1,44 @@
+import type { Landmark } from "@/types";
+import { NOTABLE_MARKER_LIMIT, NOTABLE_ONLY_BELOW_ZOOM, clusterLandmarks, clusterViewLandmarks } from "./clusters";
+
+// Spread over a few streets of Paris, so they fall into several clusters at street zoom
+const landmarks: Landmark[] = Array.from({ length: NOTABLE_MARKER_LIMIT + 10 }, (_, i) => ({
+  pageid: i + 1,
+  title: `Landmark ${i + 1}`,
+  lat: 48.85 + (i % 10) * 0.002,
+  lon: 2.33 + Math.floor(i / 10) * 0.002,
+  notability: i,
+}));
+
+const clusteredPageIds = (zoom: number) =>
+  clusterViewLandmarks(landmarks, zoom).flatMap((cluster) => cluster.landmarks.map((landmark) => landmark.pageid));
+const clusteredCount = (zoom: number) =>
+  clusterViewLandmarks(landmarks, zoom).reduce((sum, cluster) => sum + cluster.count, 0);
+
+describe("clusterLandmarks", () => {
+  it("keeps every member of a cluster along with its few representatives", () => {
+    // Two listings at exactly the same spot, which no zoom level can separate
+    const sameSpot = [landmarks[0], { ...landmarks[1], lat: landmarks[0].lat, lon: landmarks[0].lon }, landmarks[2]];
+
+    const [cluster] = clusterLandmarks(sameSpot, 19);
+
+    expect(cluster.count).toBe(2);
+    expect(cluster.members?.map((landmark) => landmark.pageid)).toEqual([1, 2]);
+    expect(cluster.bounds.north).toBe(cluster.bounds.south);
+  });
+});
+
+describe("clusterViewLandmarks", () => {
+  it("clusters only the most notable landmarks when zoomed far out", () => {
+    const zoom = NOTABLE_ONLY_BELOW_ZOOM - 1;
+
+    expect(clusteredCount(zoom)).toBe(NOTABLE_MARKER_LIMIT);
+    // The 10 least notable are left out
+    expect(clusteredPageIds(zoom).every((pageid) => pageid > 10)).toBe(true);
+  });
+
+  it("clusters every landmark from the zoom level where all are shown", () => {
+    expect(clusteredCount(NOTABLE_ONLY_BELOW_ZOOM)).toBe(landmarks.length);
+    expect(clusteredCount(18)).toBe(landmarks.length);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Landmark, LandmarkCluster } from "@/types";
+import { latToTileY, lonToTileX } from "./tiles";
+
+// Constants
+const CELL_ZOOM_OFFSET = 2; // Cluster into 64px cells at the requested zoom
+const REPRESENTATIVE_COUNT = 3; // Landmarks returned with each cluster
+export const NOTABLE_ONLY_BELOW_ZOOM = 13; // Zoom levels below this only show the most notable landmarks
+export const NOTABLE_MARKER_LIMIT = 50; // Landmarks clustered at those zoom levels
+
+/**
+ * Group landmarks into grid clusters for the given map zoom level.
+ * Each cluster carries its centroid, extent, count, a few representative landmarks and all its members.
+ */
+export function clusterLandmarks(landmarks: Landmark[], zoom: number): LandmarkCluster[] {
+  const cellZoom = zoom + CELL_ZOOM_OFFSET;
+  const cells = new Map<string, Landmark[]>();
+
+  landmarks.forEach((landmark) => {
+    const cellId = `${cellZoom}_${lonToTileX(landmark.lon, cellZoom)}_${latToTileY(landmark.lat, cellZoom)}`;
+    const cell = cells.get(cellId);
+    if (cell) {
+      cell.push(landmark);
+    } else {
+      cells.set(cellId, [landmark]);
+    }
+  });
+
+  return Array.from(cells.entries()).map(([id, members]) => ({
+    id,
+    lat: members.reduce((sum, landmark) => sum + landmark.lat, 0) / members.length,
+    lon: members.reduce((sum, landmark) => sum + landmark.lon, 0) / members.length,
+    count: members.length,
+    bounds: {
+      north: Math.max(...members.map((landmark) => landmark.lat)),
+      south: Math.min(...members.map((landmark) => landmark.lat)),
+      east: Math.max(...members.map((landmark) => landmark.lon)),
+      west: Math.min(...members.map((landmark) => landmark.lon)),
+    },
+    landmarks: pickRepresentatives(members),
+    members,
+  }));
+}
+
+/**
+ * Prefer the most notable landmarks, then those with an image and a description, to represent a cluster
+ */
+function pickRepresentatives(members: Landmark[]): Landmark[] {
+  const score = (landmark: Landmark) => (landmark.thumbnail ? 2 : 0) + (landmark.description ? 1 : 0);
+  return [...members]
+    .sort((a, b) => (b.notability ?? 0) - (a.notability ?? 0) || score(b) - score(a))
+    .slice(0, REPRESENTATIVE_COUNT);
+}
+
+/**
+ * Cluster the landmarks of a map view, keeping only the most notable ones when zoomed far out
+ */
+export function clusterViewLandmarks(landmarks: Landmark[], zoom: number): LandmarkCluster[] {
+  return clusterLandmarks(
+    zoom < NOTABLE_ONLY_BELOW_ZOOM ? mostNotable(landmarks, NOTABLE_MARKER_LIMIT) : landmarks,
+    zoom
+  );
+}
+
+/**
+ * Keep only the most notable landmarks, for views too zoomed out to show them all
+ */
+export function mostNotable(landmarks: Landmark[], limit: number): Landmark[] {
+  return [...landmarks].sort((a, b) => (b.notability ?? 0) - (a.notability ?? 0)).slice(0, limit);
+}
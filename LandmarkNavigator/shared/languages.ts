@@ -0,0 +1,36 @@
+// Wikipedia language editions that can be browsed in the app
+
+export interface WikipediaLanguage {
+  code: string;
+  name: string;
+}
+
+export const DEFAULT_LANGUAGE = "en";
+
+export const SUPPORTED_LANGUAGES: WikipediaLanguage[] = [
+  { code: "en", name: "English" },
+  { code: "de", name: "Deutsch" },
+  { code: "fr", name: "Français" },
+  { code: "es", name: "Español" },
+  { code: "it", name: "Italiano" },
+  { code: "pt", name: "Português" },
+  { code: "nl", name: "Nederlands" },
+  { code: "pl", name: "Polski" },
+  { code: "sv", name: "Svenska" },
+  { code: "ru", name: "Русский" },
+  { code: "uk", name: "Українська" },
+  { code: "ja", name: "日本語" },
+  { code: "zh", name: "中文" },
+  { code: "ko", name: "한국어" },
+  { code: "ar", name: "العربية" },
+  { code: "hi", name: "हिन्दी" },
+];
+
+export const SUPPORTED_LANGUAGE_CODES = SUPPORTED_LANGUAGES.map((language) => language.code);
+
+/**
+ * Base URL of a Wikipedia language edition
+ */
+export function wikipediaBaseUrl(lang: string): string {
+  return `https://${lang}.wikipedia.org`;
+}
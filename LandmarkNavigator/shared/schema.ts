@@ -1,4 +1,4 @@
-import { pgTable, text, serial, numeric, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, numeric, jsonb, unique, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,31 +9,57 @@ const landmarkFactSchema = z.object({
   value: z.string().min(1, "Value is required"),
 });
 
-// Landmark table
+// Landmark table, one row per page and Wikipedia language edition.
+// Landmarks from other sources use synthetic negative page IDs.
 export const landmarks = pgTable("landmarks", {
   id: serial("id").primaryKey(),
-  pageid: numeric("pageid").notNull().unique().index(),
+  pageid: numeric("pageid").notNull(),
+  lang: text("lang").notNull().default("en"),
   title: text("title").notNull(),
   lat: numeric("lat").notNull(),
   lon: numeric("lon").notNull(),
   description: text("description").default("No description available"),
   thumbnail: text("thumbnail"),
   address: text("address"),
+  wikidata: text("wikidata"),
+  source: text("source").notNull().default("wikipedia"),
+  url: text("url"),
+  category: text("category"),
+  notability: numeric("notability"),
   facts: jsonb("facts").$type<Array<z.infer<typeof landmarkFactSchema>>>(),
-  createdAt: numeric("created_at").default(() => Date.now()),
-  updatedAt: numeric("updated_at").default(() => Date.now()),
-});
+  createdAt: numeric("created_at").$defaultFn(() => Date.now().toString()),
+  updatedAt: numeric("updated_at").$defaultFn(() => Date.now().toString()),
+}, (table) => [unique("landmarks_pageid_lang_unique").on(table.pageid, table.lang)]);
 
 // Cache table for storing API responses
 export const caches = pgTable("caches", {
   id: serial("id").primaryKey(),
-  key: text("key").notNull().unique().index(),
+  key: text("key").notNull().unique(),
   value: jsonb("value").notNull(),
   expires: numeric("expires").notNull(),
-  createdAt: numeric("created_at").default(() => Date.now()),
-  updatedAt: numeric("updated_at").default(() => Date.now()),
+  createdAt: numeric("created_at").$defaultFn(() => Date.now().toString()),
+  updatedAt: numeric("updated_at").$defaultFn(() => Date.now().toString()),
+});
+
+// Anonymous bookmark sync accounts, identified by a hash of their sync code
+export const bookmarkAccounts = pgTable("bookmark_accounts", {
+  id: text("id").primaryKey(),
+  createdAt: numeric("created_at").$defaultFn(() => Date.now().toString()),
 });
 
+// Synced bookmarks and collections, one row per account and record.
+// Deleted records stay as tombstones so deletions sync to other devices.
+export const bookmarkRecords = pgTable("bookmark_records", {
+  id: serial("id").primaryKey(),
+  accountId: text("account_id").notNull().references(() => bookmarkAccounts.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(),
+  key: text("key").notNull(),
+  data: jsonb("data").notNull(),
+  deleted: boolean("deleted").notNull().default(false),
+  updatedAt: numeric("updated_at").notNull(), // When the client made the change
+  syncedAt: numeric("synced_at").notNull(), // When the server stored it
+}, (table) => [unique("bookmark_records_account_kind_key_unique").on(table.accountId, table.kind, table.key)]);
+
 // Schema for inserting a landmark
 export const insertLandmarkSchema = createInsertSchema(landmarks).omit({
   id: true,
@@ -53,3 +79,4 @@ export type InsertLandmark = z.infer<typeof insertLandmarkSchema>;
 export type Landmark = typeof landmarks.$inferSelect;
 export type InsertCache = z.infer<typeof insertCacheSchema>;
 export type Cache = typeof caches.$inferSelect;
+export type BookmarkRecordRow = typeof bookmarkRecords.$inferSelect;
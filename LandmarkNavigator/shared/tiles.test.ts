@@ -0,0 +1,109 @@
+import { countTiles, lonToTileX, latToTileY, snapBoundsToTiles, tileRangeKey, tileToBounds, tilesForBounds } from "./tiles";
+
+const paris = { north: 48.87, south: 48.85, east: 2.36, west: 2.33 };
+const world = { north: 85, south: -85, east: 180, west: -180 };
+
+describe("tilesForBounds", () => {
+  it("returns every tile of small bounds", () => {
+    const tiles = tilesForBounds(paris, 12);
+
+    expect(tiles).toHaveLength(countTiles(paris, 12));
+    expect(tiles).toContainEqual({ x: lonToTileX(2.35, 12), y: latToTileY(48.86, 12), z: 12 });
+  });
+
+  it("returns at most the limit for the whole world, from a window around its center", () => {
+    expect(countTiles(world, 12)).toBe(16_728_064);
+
+    const tiles = tilesForBounds(world, 12, 64);
+
+    expect(tiles).toHaveLength(64);
+    expect(new Set(tiles.map(({ x, y }) => `${x},${y}`)).size).toBe(64);
+    // An 8 by 8 block of tiles around the middle of the 4096 by 4096 tile world
+    const xs = tiles.map(({ x }) => x);
+    const ys = tiles.map(({ y }) => y);
+    expect([Math.min(...xs), Math.max(...xs)]).toEqual([2044, 2051]);
+    expect([Math.min(...ys), Math.max(...ys)]).toEqual([2044, 2051]);
+  });
+
+  it("picks the tiles nearest the center", () => {
+    const bounds = { north: 50, south: 47, east: 4, west: 0 };
+    const tiles = tilesForBounds(bounds, 12, 64);
+    const centerX = lonToTileX(2, 12);
+    const centerY = latToTileY(48.5, 12);
+
+    expect(tiles[0]).toEqual({ x: centerX, y: centerY, z: 12 });
+    // An 8 by 8 block around the center tile
+    const xs = tiles.map((tile) => tile.x);
+    const ys = tiles.map((tile) => tile.y);
+    expect(Math.max(...xs) - Math.min(...xs)).toBe(7);
+    expect(Math.max(...ys) - Math.min(...ys)).toBe(7);
+    expect(Math.abs(Math.min(...xs) + 3.5 - centerX)).toBeLessThanOrEqual(1);
+    expect(Math.abs(Math.min(...ys) + 3.5 - centerY)).toBeLessThanOrEqual(1);
+  });
+
+  it("uses the full length of a narrow strip", () => {
+    const strip = { north: 48.86, south: 48.859, east: 10, west: 0 };
+    const tiles = tilesForBounds(strip, 12, 64);
+
+    expect(countTiles(strip, 12)).toBeGreaterThan(64);
+    expect(tiles).toHaveLength(64);
+    expect(new Set(tiles.map((tile) => tile.y)).size).toBe(1);
+  });
+
+  it("keeps the window inside bounds at the edge of the map", () => {
+    const bounds = { north: 50, south: 47, east: 180, west: 179.5 };
+    const tiles = tilesForBounds(bounds, 12, 64);
+    const range = tilesForBounds(bounds, 12);
+
+    expect(tiles).toHaveLength(64);
+    tiles.forEach((tile) => expect(range).toContainEqual(tile));
+  });
+});
+
+describe("snapBoundsToTiles", () => {
+  it("expands bounds to the edges of the tiles they touch", () => {
+    const snapped = snapBoundsToTiles(paris, 14);
+
+    expect(snapped.north).toBeGreaterThanOrEqual(paris.north);
+    expect(snapped.south).toBeLessThanOrEqual(paris.south);
+    expect(snapped.east).toBeGreaterThanOrEqual(paris.east);
+    expect(snapped.west).toBeLessThanOrEqual(paris.west);
+    expect(snapped.west).toBeCloseTo(tileToBounds({ x: lonToTileX(paris.west, 14), y: 0, z: 14 }).west, 10);
+  });
+
+  it("leaves snapped bounds unchanged", () => {
+    const snapped = snapBoundsToTiles(paris, 14);
+
+    expect(snapBoundsToTiles(snapped, 14)).toEqual(snapped);
+    expect(tileRangeKey(snapped, 14)).toBe(tileRangeKey(paris, 14));
+  });
+
+  it("does not add the next tile for bounds ending exactly on a tile edge", () => {
+    const tile = tileToBounds({ x: 8300, y: 5636, z: 14 });
+
+    expect(tileRangeKey(tile, 14)).toBe("14_8300_5636_8300_5636");
+    expect(snapBoundsToTiles(tile, 14)).toEqual(tile);
+  });
+});
+
+describe("tileRangeKey", () => {
+  it("gives slightly different bounds inside the same tiles the same key", () => {
+    const tile = tileToBounds({ x: 8300, y: 5636, z: 14 });
+    const inset = 0.0005; // About 50 m
+    const viewA = { north: tile.north - inset, south: tile.south + inset, east: tile.east - inset, west: tile.west + inset };
+    const viewB = { north: tile.north - 2 * inset, south: tile.south + inset / 2, east: tile.east - inset / 3, west: tile.west + 3 * inset };
+
+    expect(tileRangeKey(viewA, 14)).toBe(tileRangeKey(viewB, 14));
+  });
+
+  it("changes once the bounds reach into another tile", () => {
+    const tile = tileToBounds({ x: 8300, y: 5636, z: 14 });
+    const wider = { ...tile, east: tile.east + 0.0001 };
+
+    expect(tileRangeKey(wider, 14)).toBe("14_8300_5636_8301_5636");
+  });
+
+  it("depends on the zoom level", () => {
+    expect(tileRangeKey(paris, 12)).not.toBe(tileRangeKey(paris, 14));
+  });
+});
@@ -0,0 +1,159 @@
+// Web Mercator (slippy map) tile helpers shared by the client and the server
+
+const MAX_LATITUDE = 85.05112878; // Web Mercator cannot represent the poles
+const EDGE_EPSILON = 1e-9; // Nudge edges inwards so bounds on tile edges don't reach into neighbouring tiles
+
+export interface Tile {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+function clampLatitude(lat: number): number {
+  return Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+}
+
+// Fractional tile column and row of a longitude and latitude
+function lonToTileXFraction(lon: number, z: number): number {
+  return ((lon + 180) / 360) * 2 ** z;
+}
+
+function latToTileYFraction(lat: number, z: number): number {
+  const rad = (clampLatitude(lat) * Math.PI) / 180;
+  return ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z;
+}
+
+/**
+ * Column of the tile containing the given longitude
+ */
+export function lonToTileX(lon: number, z: number): number {
+  return Math.min(2 ** z - 1, Math.max(0, Math.floor(lonToTileXFraction(lon, z))));
+}
+
+/**
+ * Row of the tile containing the given latitude
+ */
+export function latToTileY(lat: number, z: number): number {
+  return Math.min(2 ** z - 1, Math.max(0, Math.floor(latToTileYFraction(lat, z))));
+}
+
+/**
+ * Inclusive range of tile columns and rows that intersect the given bounds
+ */
+function tileRange(bounds: TileBounds, z: number) {
+  return {
+    minX: lonToTileX(Math.min(bounds.east, bounds.west + EDGE_EPSILON), z),
+    maxX: lonToTileX(Math.max(bounds.west, bounds.east - EDGE_EPSILON), z),
+    minY: latToTileY(Math.max(bounds.south, bounds.north - EDGE_EPSILON), z),
+    maxY: latToTileY(Math.min(bounds.north, bounds.south + EDGE_EPSILON), z),
+  };
+}
+
+function tileXToLon(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+/**
+ * Geographic bounds covered by a tile
+ */
+export function tileToBounds({ x, y, z }: Tile): TileBounds {
+  return {
+    north: tileYToLat(y, z),
+    south: tileYToLat(y + 1, z),
+    east: tileXToLon(x + 1, z),
+    west: tileXToLon(x, z),
+  };
+}
+
+/**
+ * Number of tiles at zoom level z that intersect the given bounds
+ */
+export function countTiles(bounds: TileBounds, z: number): number {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+  return (maxX - minX + 1) * (maxY - minY + 1);
+}
+
+/**
+ * Tiles at zoom level z that intersect the given bounds. When there are more than `limit`,
+ * only the `limit` tiles nearest the center of the bounds are returned; they are picked
+ * from a window around the center tile, so huge bounds cost no more than small ones.
+ */
+export function tilesForBounds(bounds: TileBounds, z: number, limit: number = Infinity): Tile[] {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+  const columns = maxX - minX + 1;
+  const rows = maxY - minY + 1;
+
+  if (columns * rows <= limit) {
+    return collectTiles(minX, maxX, minY, maxY, z);
+  }
+
+  // Size the window to hold at least `limit` tiles, using the full extent of a narrow axis
+  const side = Math.ceil(Math.sqrt(limit));
+  const windowColumns = Math.min(columns, Math.ceil(limit / Math.min(rows, side)));
+  const windowRows = Math.min(rows, Math.ceil(limit / windowColumns));
+
+  // Center the window on the center of the bounds, shifted back inside the range at its edges
+  const centerX = lonToTileXFraction((bounds.east + bounds.west) / 2, z);
+  const centerY = latToTileYFraction((bounds.north + bounds.south) / 2, z);
+  const startX = Math.max(minX, Math.min(maxX - windowColumns + 1, Math.round(centerX - windowColumns / 2)));
+  const startY = Math.max(minY, Math.min(maxY - windowRows + 1, Math.round(centerY - windowRows / 2)));
+
+  const distance = ({ x, y }: Tile) => (x + 0.5 - centerX) ** 2 + (y + 0.5 - centerY) ** 2;
+  return collectTiles(startX, startX + windowColumns - 1, startY, startY + windowRows - 1, z)
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, limit);
+}
+
+function collectTiles(minX: number, maxX: number, minY: number, maxY: number, z: number): Tile[] {
+  const tiles: Tile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Whether a point lies within the given bounds (edges included)
+ */
+export function containsPoint(bounds: TileBounds, lat: number, lon: number): boolean {
+  return lat <= bounds.north && lat >= bounds.south && lon <= bounds.east && lon >= bounds.west;
+}
+
+/**
+ * Expand bounds outwards to the edges of the tiles they touch at zoom level z,
+ * so nearby viewports resolve to the same tile-aligned bounds
+ */
+export function snapBoundsToTiles(bounds: TileBounds, z: number): TileBounds {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+  const northWest = tileToBounds({ x: minX, y: minY, z });
+  const southEast = tileToBounds({ x: maxX, y: maxY, z });
+
+  return {
+    north: northWest.north,
+    south: southEast.south,
+    east: southEast.east,
+    west: northWest.west,
+  };
+}
+
+/**
+ * Stable identifier for the tile range covering the given bounds at zoom level z
+ */
+export function tileRangeKey(bounds: TileBounds, z: number): string {
+  const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+  return `${z}_${minX}_${minY}_${maxX}_${maxY}`;
+}